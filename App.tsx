@@ -1,11 +1,14 @@
 import React, { useState } from 'react';
 import { GameSetup } from './components/GameSetup';
 import { GameScreen } from './components/GameScreen';
-import { GameSettings } from './types';
+import { DuelScreen } from './components/DuelScreen';
+import { HistoryScreen } from './components/HistoryScreen';
+import { GameMode, GameSettings } from './types';
 
 const App: React.FC = () => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [settings, setSettings] = useState<GameSettings | null>(null);
+  const [isViewingHistory, setIsViewingHistory] = useState(false);
 
   const handleStartGame = (newSettings: GameSettings) => {
     setSettings(newSettings);
@@ -19,10 +22,14 @@ const App: React.FC = () => {
 
   return (
     <div className="antialiased text-gray-900">
-      {!isPlaying ? (
-        <GameSetup onStart={handleStartGame} />
+      {isViewingHistory ? (
+        <HistoryScreen onBack={() => setIsViewingHistory(false)} />
+      ) : !isPlaying ? (
+        <GameSetup onStart={handleStartGame} onShowHistory={() => setIsViewingHistory(true)} />
       ) : (
-        settings && <GameScreen settings={settings} onExit={handleExitGame} />
+        settings && (settings.mode === GameMode.DUEL
+          ? <DuelScreen settings={settings} onExit={handleExitGame} />
+          : <GameScreen settings={settings} onExit={handleExitGame} />)
       )}
     </div>
   );
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { LLM_PROVIDER_LABELS, LlmConfig, LlmProviderId, loadLlmConfig, saveLlmConfig } from '../services/llmProvider';
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/solid';
+
+interface AiSettingsProps {
+  onClose: () => void;
+}
+
+const PROVIDER_HINTS: Record<LlmProviderId, string> = {
+  gemini: 'Uses Google\'s hosted Gemini models. Needs an API key.',
+  openai: 'Any server with an OpenAI-style /chat/completions endpoint, e.g. a self-hosted llama.cpp or Ollama (http://localhost:11434/v1).',
+  offline: 'Sentences are checked by the built-in grammar rules only. No custom topics or AI ideas.',
+};
+
+const inputClasses = "w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 font-semibold text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-300";
+
+const Field = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <label className="block mb-3">
+    <span className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+export const AiSettings: React.FC<AiSettingsProps> = ({ onClose }) => {
+  const [config, setConfig] = useState<LlmConfig>(() => loadLlmConfig());
+
+  const updateGemini = (changes: Partial<LlmConfig['gemini']>) =>
+    setConfig(prev => ({ ...prev, gemini: { ...prev.gemini, ...changes } }));
+  const updateOpenAi = (changes: Partial<LlmConfig['openai']>) =>
+    setConfig(prev => ({ ...prev, openai: { ...prev.openai, ...changes } }));
+
+  const handleSave = () => {
+    saveLlmConfig(config);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fadeIn">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg max-h-[85vh] overflow-y-auto p-8 border-t-8 border-honey-400">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-black text-gray-900">AI <span className="text-french-blue">Judge</span></h2>
+          <button onClick={onClose} className="text-gray-300 hover:text-gray-500 transition">
+            <XCircleIcon className="w-8 h-8" />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-2 mb-6">
+          {(Object.keys(LLM_PROVIDER_LABELS) as LlmProviderId[]).map(id => (
+            <button
+              key={id}
+              onClick={() => setConfig(prev => ({ ...prev, provider: id }))}
+              className={`text-left p-4 clip-hex-btn border-b-4 transition-all duration-200
+                ${config.provider === id
+                  ? 'bg-indigo-600 border-indigo-800 text-white shadow-lg'
+                  : 'bg-white border-gray-200 text-gray-600 hover:border-honey-400 hover:bg-honey-50'}
+              `}
+            >
+              <span className="block font-black">{LLM_PROVIDER_LABELS[id]}</span>
+              <span className={`block text-xs font-semibold mt-1 ${config.provider === id ? 'text-indigo-100' : 'text-gray-400'}`}>{PROVIDER_HINTS[id]}</span>
+            </button>
+          ))}
+        </div>
+
+        {config.provider === 'gemini' && (
+          <>
+            <Field label="API Key">
+              <input type="password" value={config.gemini.apiKey} onChange={(e) => updateGemini({ apiKey: e.target.value })} className={inputClasses} />
+            </Field>
+            <Field label="Model">
+              <input value={config.gemini.model} onChange={(e) => updateGemini({ model: e.target.value })} className={inputClasses} />
+            </Field>
+          </>
+        )}
+
+        {config.provider === 'openai' && (
+          <>
+            <Field label="Server URL">
+              <input value={config.openai.baseUrl} onChange={(e) => updateOpenAi({ baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClasses} />
+            </Field>
+            <Field label="Model">
+              <input value={config.openai.model} onChange={(e) => updateOpenAi({ model: e.target.value })} placeholder="llama3.1" className={inputClasses} />
+            </Field>
+            <Field label="API Key (optional)">
+              <input type="password" value={config.openai.apiKey} onChange={(e) => updateOpenAi({ apiKey: e.target.value })} className={inputClasses} />
+            </Field>
+          </>
+        )}
+
+        <button
+          onClick={handleSave}
+          className="w-full mt-4 bg-indigo-600 text-white py-3 font-bold clip-hex-btn shadow-md hover:bg-indigo-700 transition flex items-center justify-center gap-2"
+        >
+          <CheckCircleIcon className="w-5 h-5" />
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
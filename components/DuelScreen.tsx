@@ -0,0 +1,396 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GameSettings, Topic, Word } from '../types';
+import { getStarterSlots, getWordPool } from '../constants';
+import { generateInspiration } from '../services/geminiService';
+import { findTopicWords, generateTopicWords, getPack, pickModelSentence, pickPackChallenge } from '../services/lessonPackService';
+import { createDuelState, currentRound, DUEL_ROUND_LIMIT, DuelAnswer, DuelEvent, DuelPlayer, DuelPrompt, DuelState, DuelSubmission, duelReducer, leaderboard, MIN_DUEL_PLAYERS, nextChallenge, waitingFor } from '../services/duelMachine';
+import { connectDuel, DuelConnection, DuelServerMessage, DuelSync, RosterPlayer } from '../services/duelClient';
+import { FEEDBACK_LABELS, GameScreen } from './GameScreen';
+import { CheckCircleIcon, XCircleIcon, SparklesIcon, FireIcon, TrophyIcon, UserIcon, ExclamationTriangleIcon, ForwardIcon, SignalIcon, HomeIcon } from '@heroicons/react/24/solid';
+
+interface DuelScreenProps {
+  settings: GameSettings; // Ignored by network guests, who play the host's settings
+  onExit: () => void;
+}
+
+// Side-by-side columns for 2-4 players
+const GRID_COLUMNS: Record<number, string> = { 2: 'md:grid-cols-2', 3: 'md:grid-cols-3', 4: 'md:grid-cols-4' };
+
+// Full-screen card used by every step between turns
+const DuelPanel: React.FC<{ title: string; wide?: boolean; children: React.ReactNode }> = ({ title, wide, children }) => (
+  <div className="min-h-screen bg-honeycomb bg-fixed flex flex-col items-center justify-center p-4 md:p-8">
+    <h1 className="text-4xl md:text-5xl font-extrabold mb-6 text-french-blue text-center">{title}</h1>
+    <div className={`bg-white text-gray-800 p-6 md:p-8 rounded-2xl shadow-2xl w-full ${wide ? 'max-w-5xl' : 'max-w-md'} text-center border-t-8 border-honey-400`}>
+      {children}
+    </div>
+  </div>
+);
+
+const PromptCard: React.FC<{ prompt: DuelPrompt }> = ({ prompt }) => (
+  <div className={`mb-6 rounded-xl px-4 py-3 text-left ${prompt.kind === 'challenge' ? 'bg-orange-50 border-l-4 border-orange-400' : 'bg-indigo-50 border-l-4 border-indigo-400'}`}>
+    <h3 className={`uppercase tracking-widest font-black text-xs mb-1 flex items-center gap-1 ${prompt.kind === 'challenge' ? 'text-orange-500' : 'text-indigo-500'}`}>
+      {prompt.kind === 'challenge' ? <FireIcon className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4" />}
+      {prompt.kind === 'challenge' ? 'Answer the question (+20 pts)' : 'Translate'}
+    </h3>
+    <p className="text-xl font-serif font-bold italic text-gray-800">"{prompt.text}"</p>
+  </div>
+);
+
+// One player's answer in the round results
+const AnswerColumn: React.FC<{ player: DuelPlayer; answer?: DuelAnswer }> = ({ player, answer }) => {
+  const result = answer?.result;
+  const border = !result ? 'border-gray-200' : result.isValid ? 'border-green-400' : 'border-red-400';
+  return (
+    <div className={`rounded-xl border-4 ${border} p-4 flex flex-col text-left`}>
+      <div className="flex items-center justify-between mb-3">
+        <span className="font-black text-gray-800 truncate">{player.name}</span>
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider shrink-0">{player.game.score} pts</span>
+      </div>
+      {!answer ? (
+        <p className="text-gray-400 italic">{player.left ? 'Left the duel.' : 'No answer.'}</p>
+      ) : (
+        <>
+          <p className="text-lg font-serif italic text-gray-800 mb-3">"{answer.sentence}"</p>
+          {result ? (
+            <>
+              <div className={`flex items-center gap-2 font-bold ${result.isValid ? 'text-green-700' : 'text-red-700'}`}>
+                {result.isValid ? <CheckCircleIcon className="w-5 h-5" /> : <XCircleIcon className="w-5 h-5" />}
+                {FEEDBACK_LABELS[result.feedbackType]}
+              </div>
+              {!result.isValid && result.correction && (
+                <p className="text-sm text-red-700 mt-1"><span className="font-bold">Correction:</span> {result.correction}</p>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-400">Skipped: the judge didn't answer.</p>
+          )}
+          <p className="mt-auto pt-3 text-2xl font-black text-french-blue">+{answer.points}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export const DuelScreen: React.FC<DuelScreenProps> = ({ settings, onExit }) => {
+  const setup = settings.duel;
+  const isNetwork = !!setup?.serverUrl;
+
+  // Hot-seat, or the host of a network duel: this device runs the duel
+  const [duel, setDuel] = useState<DuelState | null>(() => isNetwork || !setup
+    ? null
+    : createDuelState(settings, setup.players.map((name, i) => ({ id: `player-${i + 1}`, name }))));
+  const dispatch = (event: DuelEvent) => setDuel(d => d && duelReducer(d, event));
+
+  const [wordPool, setWordPool] = useState<Word[] | null>(null);
+  const [isPickingPrompt, setIsPickingPrompt] = useState(false);
+  const [playingId, setPlayingId] = useState<string | null>(null); // Hot-seat: whose turn is on screen
+
+  // Network state
+  const connectionRef = useRef<DuelConnection | null>(null);
+  const [myId, setMyId] = useState<string | null>(null);
+  const [isHost, setIsHost] = useState(false);
+  const [roster, setRoster] = useState<RosterPlayer[]>([]);
+  const [remote, setRemote] = useState<DuelSync | null>(null); // Guests: the host's duel
+  const [answeredRound, setAnsweredRound] = useState(-1); // Guests: last round answered, until the host confirms it
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+
+  const isHosting = !isNetwork || isHost;
+  const lessonPack = React.useMemo(() => settings.packId ? getPack(settings.packId) : null, [settings.packId]);
+
+  // What's on screen: this device's duel, or the host's for a guest
+  const view = isHosting ? duel : remote?.duel || null;
+  const playSettings = isHosting ? settings : remote?.settings || settings;
+  const playWords = isHosting ? wordPool : remote?.wordPool || null;
+  const round = view ? currentRound(view) : null;
+  const roundNumber = view?.rounds.length || 0;
+
+  // --- Network ---
+  useEffect(() => {
+    if (!isNetwork || !setup?.serverUrl) return;
+    const handleMessage = (message: DuelServerMessage) => {
+      switch (message.type) {
+        case 'welcome':
+          setMyId(message.playerId);
+          setIsHost(message.isHost);
+          break;
+        case 'roster':
+          setRoster(message.players);
+          // Players who dropped out mid-duel stop holding up the rounds
+          setDuel(d => d && d.players
+            .filter(p => !p.left && !message.players.some(r => r.id === p.id))
+            .reduce((state, p) => duelReducer(state, { type: 'LEAVE', playerId: p.id }), d));
+          break;
+        case 'sync':
+          setRemote(message.sync);
+          break;
+        case 'answer':
+          dispatch({ type: 'ANSWER', playerId: message.from, submission: message.submission });
+          break;
+        case 'closed':
+          setConnectionError(message.reason);
+          break;
+        case 'error':
+          setConnectionError(message.message);
+          break;
+      }
+    };
+    const connection = connectDuel(setup.serverUrl, setup.room || '', setup.players[0] || '', handleMessage,
+      () => setConnectionError(error => error || "Lost the connection to the duel server. Is `npm run duel-server` running?"));
+    connectionRef.current = connection;
+    return () => connection.close();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // The host keeps every guest's screen in step with its duel
+  useEffect(() => {
+    if (isNetwork && isHost && duel && wordPool) connectionRef.current?.send({ type: 'sync', sync: { settings, wordPool, duel } });
+  }, [duel, roster]);
+
+  // --- Words (loaded once by whoever runs the duel, then shared) ---
+  useEffect(() => {
+    if (!isHosting || wordPool) return;
+    const controller = new AbortController();
+    const loadWords = async () => {
+      let topicWords: Word[] = [];
+      if (settings.topic === Topic.CUSTOM) {
+        topicWords = findTopicWords(settings)
+          || (settings.customTopic ? await generateTopicWords(settings.customTopic, settings.difficulty, { signal: controller.signal }) : []);
+        if (controller.signal.aborted) return;
+      }
+      setWordPool(getWordPool(settings, topicWords));
+    };
+    loadWords();
+    return () => controller.abort();
+  }, [isHosting]);
+
+  // --- Rounds ---
+
+  // A question the judge asked last round, or the pack's, makes a challenge; otherwise a sentence to translate
+  const pickPrompt = async (state: DuelState, words: Word[]): Promise<DuelPrompt> => {
+    const asked = state.rounds.map(r => r.prompt.text);
+    const packQuestion = lessonPack && state.rounds.length % 2 === 1 ? pickPackChallenge(lessonPack, asked) : null;
+    const question = nextChallenge(state) || packQuestion;
+    if (question) return { kind: 'challenge', text: question };
+    const model = lessonPack ? pickModelSentence(lessonPack) : null;
+    if (model) return { kind: 'inspiration', text: model.english };
+    const outcome = await generateInspiration(words, settings.tense);
+    // The duel goes on without the AI: everyone gets an open prompt instead
+    return { kind: 'inspiration', text: outcome.status === 'inspiration' ? outcome.englishSentence : "Try describing something nearby." };
+  };
+
+  const startNextRound = async () => {
+    if (!duel || !wordPool || isPickingPrompt) return;
+    if (duel.rounds.length >= DUEL_ROUND_LIMIT) {
+      dispatch({ type: 'END' });
+      return;
+    }
+    setIsPickingPrompt(true);
+    const prompt = await pickPrompt(duel, wordPool);
+    setIsPickingPrompt(false);
+    dispatch({ type: 'ROUND_START', prompt, starter: getStarterSlots(wordPool) });
+  };
+
+  // The first round starts as soon as the words are in
+  useEffect(() => {
+    if (duel?.phase === 'prompt' && wordPool) startNextRound();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [duel?.phase, wordPool]);
+
+  const handleStartNetworkDuel = () => setDuel(createDuelState(settings, roster));
+
+  const handleTurnDone = (playerId: string, submission: DuelSubmission) => {
+    setPlayingId(null);
+    if (isHosting) {
+      dispatch({ type: 'ANSWER', playerId, submission });
+    } else {
+      connectionRef.current?.send({ type: 'answer', submission });
+      setAnsweredRound(roundNumber - 1);
+    }
+  };
+
+  const backButton = (
+    <button
+      onClick={onExit}
+      className="w-full bg-french-red text-white py-3 rounded-lg font-bold hover:bg-red-600 transition shadow-lg clip-hex-btn"
+    >
+      Back to Menu
+    </button>
+  );
+
+  // --- Views ---
+
+  if (connectionError) {
+    return (
+      <DuelPanel title="Duel">
+        <ExclamationTriangleIcon className="w-12 h-12 text-amber-500 mx-auto mb-4" />
+        <p className="text-gray-600 text-lg mb-8">{connectionError}</p>
+        {backButton}
+      </DuelPanel>
+    );
+  }
+
+  // Network lobby: players gather in the room until the host starts
+  if (isNetwork && !view) {
+    return (
+      <DuelPanel title="Duel">
+        <p className="text-gray-500 uppercase tracking-widest text-sm font-bold mb-1">Room</p>
+        <p className="text-4xl font-black text-french-blue mb-6 tracking-widest">{setup?.room?.toUpperCase()}</p>
+        {!myId ? (
+          <p className="flex items-center justify-center gap-2 text-gray-400 font-semibold mb-8">
+            <SignalIcon className="w-5 h-5 animate-pulse" />
+            Connecting to {setup?.serverUrl}…
+          </p>
+        ) : (
+          <>
+            <ul className="mb-6 space-y-2">
+              {roster.map((p, i) => (
+                <li key={p.id} className="flex items-center gap-2 bg-gray-50 rounded-lg px-4 py-2 font-bold text-gray-700">
+                  <UserIcon className="w-5 h-5 text-indigo-400" />
+                  <span className="truncate">{p.name}</span>
+                  {i === 0 && <span className="ml-auto text-xs uppercase tracking-wider text-honey-500">Host</span>}
+                  {p.id === myId && i !== 0 && <span className="ml-auto text-xs uppercase tracking-wider text-gray-400">You</span>}
+                </li>
+              ))}
+            </ul>
+            {isHost ? (
+              <button
+                onClick={handleStartNetworkDuel}
+                disabled={roster.length < MIN_DUEL_PLAYERS || !wordPool}
+                className="w-full mb-4 bg-french-blue text-white py-3 rounded-lg font-bold hover:bg-blue-700 transition shadow-lg clip-hex-btn disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed"
+              >
+                {!wordPool ? 'Loading words…' : roster.length < MIN_DUEL_PLAYERS ? 'Waiting for players…' : 'Start Duel'}
+              </button>
+            ) : (
+              <p className="text-gray-400 font-semibold mb-6">Waiting for the host to start…</p>
+            )}
+          </>
+        )}
+        {backButton}
+      </DuelPanel>
+    );
+  }
+
+  if (!view || !playWords) {
+    return (
+      <div className="min-h-screen bg-french-blue flex flex-col items-center justify-center p-8 text-white text-center">
+        <SparklesIcon className="w-16 h-16 text-yellow-300 animate-spin mb-6" />
+        <h2 className="text-3xl font-bold mb-2">Generating Vocabulary...</h2>
+        {settings.customTopic && (
+          <p className="text-xl opacity-80 max-w-md">Creating a custom word pack for <span className="font-bold text-yellow-300">"{settings.customTopic}"</span>.</p>
+        )}
+      </div>
+    );
+  }
+
+  // --- Final leaderboard ---
+  if (view.phase === 'over') {
+    const entries = leaderboard(view);
+    return (
+      <DuelPanel title="Classement">
+        <ol className="mb-8 space-y-3">
+          {entries.map(({ player, rank }) => (
+            <li
+              key={player.id}
+              className={`flex items-center gap-4 rounded-xl px-4 py-3 text-left ${rank === 1 ? 'bg-honey-100 border-2 border-honey-400' : 'bg-gray-50'}`}
+            >
+              <span className={`w-10 h-10 shrink-0 flex items-center justify-center font-black text-lg clip-hex-btn ${rank === 1 ? 'bg-honey-400 text-white' : 'bg-gray-200 text-gray-600'}`}>
+                {rank === 1 ? <TrophyIcon className="w-5 h-5" /> : rank}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="font-black text-gray-800 truncate">{player.name}{player.left && <span className="ml-2 text-xs font-semibold text-gray-400">(left)</span>}</p>
+                <p className="text-xs font-semibold text-gray-400">{player.game.sentencesCompleted}/{view.rounds.length} correct</p>
+              </div>
+              <span className="text-3xl font-black text-french-blue">{player.game.score}</span>
+            </li>
+          ))}
+        </ol>
+        {backButton}
+      </DuelPanel>
+    );
+  }
+
+  // --- Round results, side by side ---
+  if (view.phase === 'results' && round) {
+    const isLastRound = roundNumber >= DUEL_ROUND_LIMIT;
+    return (
+      <DuelPanel title={`Round ${roundNumber} of ${DUEL_ROUND_LIMIT}`} wide>
+        <PromptCard prompt={round.prompt} />
+        <div className={`grid grid-cols-1 ${GRID_COLUMNS[view.players.length]} gap-4 mb-8`}>
+          {view.players.map(p => <AnswerColumn key={p.id} player={p} answer={round.answers[p.id]} />)}
+        </div>
+        {isHosting ? (
+          <button
+            onClick={startNextRound}
+            disabled={isPickingPrompt}
+            className="w-full max-w-md mx-auto bg-gray-900 text-white py-4 clip-hex-btn font-bold text-lg shadow-lg hover:bg-black transition flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-wait"
+          >
+            {isLastRound ? <TrophyIcon className="w-5 h-5" /> : <ForwardIcon className="w-5 h-5" />}
+            {isPickingPrompt ? 'Picking a prompt…' : isLastRound ? 'See the Leaderboard' : 'Next Round'}
+          </button>
+        ) : (
+          <p className="text-gray-400 font-semibold">Waiting for the host…</p>
+        )}
+      </DuelPanel>
+    );
+  }
+
+  if (view.phase !== 'turns' || !round) {
+    return (
+      <DuelPanel title="Duel">
+        <SparklesIcon className="w-10 h-10 text-indigo-400 animate-spin mx-auto mb-4" />
+        <p className="text-gray-500 font-semibold">Picking a prompt…</p>
+      </DuelPanel>
+    );
+  }
+
+  // --- Turns ---
+  const waiting = waitingFor(view);
+  const turnPlayer = isNetwork
+    ? (answeredRound === roundNumber - 1 ? undefined : waiting.find(p => p.id === myId))
+    : waiting.find(p => p.id === playingId);
+
+  if (turnPlayer) {
+    return (
+      <GameScreen
+        key={`${roundNumber}-${turnPlayer.id}`}
+        settings={playSettings}
+        duelTurn={{
+          player: turnPlayer.name,
+          prompt: round.prompt,
+          starter: round.starter,
+          wordPool: playWords,
+          onDone: (submission) => handleTurnDone(turnPlayer.id, submission),
+        }}
+        onExit={onExit}
+      />
+    );
+  }
+
+  // Hot-seat: hand the device to the next player. Network: wait for the others to answer.
+  const next = waiting[0];
+  return (
+    <DuelPanel title={`Round ${roundNumber} of ${DUEL_ROUND_LIMIT}`}>
+      <PromptCard prompt={round.prompt} />
+      {!isNetwork && next ? (
+        <>
+          <p className="text-gray-500 font-semibold mb-1">Pass the device to</p>
+          <p className="text-3xl font-black text-gray-800 mb-6 truncate">{next.name}</p>
+          <button
+            onClick={() => setPlayingId(next.id)}
+            className="w-full mb-4 bg-french-blue text-white py-3 rounded-lg font-bold hover:bg-blue-700 transition shadow-lg clip-hex-btn"
+          >
+            I'm {next.name}, let's go!
+          </button>
+        </>
+      ) : (
+        <p className="text-gray-500 font-semibold mb-6">
+          Waiting for {waiting.map(p => p.name).join(', ') || 'the host'}…
+        </p>
+      )}
+      <button onClick={onExit} className="flex items-center justify-center gap-2 mx-auto text-sm font-bold text-gray-400 hover:text-gray-700 transition uppercase tracking-wider">
+        <HomeIcon className="w-5 h-5" />
+        Leave Duel
+      </button>
+    </DuelPanel>
+  );
+};
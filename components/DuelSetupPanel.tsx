@@ -0,0 +1,99 @@
+import React from 'react';
+import { DevicePhoneMobileIcon, PlusIcon, WifiIcon, XMarkIcon } from '@heroicons/react/24/solid';
+import { MAX_DUEL_PLAYERS, MIN_DUEL_PLAYERS } from '../services/duelMachine';
+
+// Who is playing a duel, edited on the setup screen. On the network only the first name is used (this device's player).
+export interface DuelDraft {
+  isNetwork: boolean;
+  players: string[];
+  serverUrl: string;
+  room: string;
+}
+
+interface DuelSetupPanelProps {
+  draft: DuelDraft;
+  onChange: (draft: DuelDraft) => void;
+}
+
+const inputClasses = "w-full bg-white border-2 border-gray-200 rounded-lg px-3 py-2 font-bold text-gray-800 focus:outline-none focus:border-indigo-400";
+
+export const DuelSetupPanel: React.FC<DuelSetupPanelProps> = ({ draft, onChange }) => {
+  const setPlayer = (index: number, name: string) =>
+    onChange({ ...draft, players: draft.players.map((p, i) => i === index ? name : p) });
+
+  return (
+    <div className="mb-8 animate-fadeIn">
+      <h3 className="text-gray-700 font-bold mb-3 uppercase text-sm tracking-wider flex items-center gap-2">
+        <span className="w-2 h-2 bg-honey-400 rotate-45"></span>
+        Players
+      </h3>
+
+      <div className="flex gap-2 mb-4">
+        {[false, true].map(isNetwork => (
+          <button
+            key={String(isNetwork)}
+            onClick={() => onChange({ ...draft, isNetwork })}
+            aria-pressed={draft.isNetwork === isNetwork}
+            className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold transition ${draft.isNetwork === isNetwork ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+          >
+            {isNetwork ? <WifiIcon className="w-4 h-4" /> : <DevicePhoneMobileIcon className="w-4 h-4" />}
+            {isNetwork ? 'Local network' : 'This device'}
+          </button>
+        ))}
+      </div>
+
+      {draft.isNetwork ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+            Your name
+            <input value={draft.players[0]} onChange={(e) => setPlayer(0, e.target.value)} className={`${inputClasses} mt-1`} />
+          </label>
+          <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+            Room code
+            <input value={draft.room} onChange={(e) => onChange({ ...draft, room: e.target.value })} placeholder="e.g. HIVE" className={`${inputClasses} mt-1 uppercase`} />
+          </label>
+          <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+            Duel server
+            <input value={draft.serverUrl} onChange={(e) => onChange({ ...draft, serverUrl: e.target.value })} className={`${inputClasses} mt-1`} />
+          </label>
+          <p className="md:col-span-3 text-sm font-semibold text-gray-400">
+            Run <code className="text-indigo-500">npm run duel-server</code> on one computer, then join the same room from every device.
+            The first player in the room hosts: their topic, tense and difficulty are played.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {draft.players.map((name, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input
+                value={name}
+                onChange={(e) => setPlayer(i, e.target.value)}
+                placeholder={`Player ${i + 1}`}
+                aria-label={`Player ${i + 1}`}
+                className={inputClasses}
+              />
+              {draft.players.length > MIN_DUEL_PLAYERS && (
+                <button
+                  onClick={() => onChange({ ...draft, players: draft.players.filter((_, j) => j !== i) })}
+                  aria-label={`Remove player ${i + 1}`}
+                  className="text-gray-300 hover:text-red-500 transition"
+                >
+                  <XMarkIcon className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+          ))}
+          {draft.players.length < MAX_DUEL_PLAYERS && (
+            <button
+              onClick={() => onChange({ ...draft, players: [...draft.players, ''] })}
+              className="flex items-center justify-center gap-2 border-2 border-dashed border-gray-300 rounded-lg px-3 py-2 text-sm font-bold text-gray-400 hover:border-indigo-400 hover:text-indigo-500 transition"
+            >
+              <PlusIcon className="w-4 h-4" />
+              Add Player
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
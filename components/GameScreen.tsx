@@ -1,16 +1,60 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { GameSettings, GameState, SentenceSlot, Word, PartOfSpeech, GameMode, ValidationResult, Topic, Tense } from '../types';
-import { getWordsForGame, getStarterSentence, getTenseHint, generateVariations, COMMON_WORDS, createWord, generateErVerbs, getVerbForms, applyFrenchElision, findElisionCandidate } from '../constants';
-import { validateSentence, generateWordPack, generateInspiration } from '../services/geminiService';
+import React, { useState, useEffect, useReducer, useRef } from 'react';
+import { GameSettings, SentenceSlot, Word, PartOfSpeech, GameMode, ValidationResult, Topic, Tense, GrammarError } from '../types';
+import { getWordPool, getStarterSlots, getTenseHint, generateVariations, generateErVerbs, getVerbForms, getConjugationTense, applyFrenchElision, getDifficultyProfile, unmergeSlot } from '../constants';
+import { validateSentence, generateInspiration } from '../services/geminiService';
+import { AiFailureKind, ValidationOutcome } from '../services/llmProvider';
+import { PartialVerdict } from '../services/responseValidators';
+import { canEditSlots, canOpenSlot, canRedo, canUndo, createGameState, gameReducer, nextElision, pointsForVerdict, RoundSetup } from '../services/gameMachine';
+import { loadSpeechRate, saveSpeechRate, SPEECH_RATES, spokenWordStarts, stopSpeaking, wordIndexAt } from '../services/speechService';
+import { recordSentence } from '../services/profileService';
+import { addReviewCard, getDueCards, judgeRebuild, reviewCard, shuffleWords } from '../services/srsService';
+import { buildCandidateWords, parseSentence, resolveToken, splitElisions, tokensToSlots } from '../services/sentenceParser';
+import { findTopicWords, generateTopicWords, getPack, pickModelSentence, pickPackChallenge } from '../services/lessonPackService';
+import { DuelPrompt, DuelSubmission } from '../services/duelMachine';
 import { WordSlot } from './WordSlot';
 import { ForgeLoading } from './ForgeLoading';
-import { ArrowPathIcon, CheckCircleIcon, ClockIcon, XCircleIcon, HomeIcon, LightBulbIcon, PlusIcon, AdjustmentsHorizontalIcon, SparklesIcon, FlagIcon, FireIcon } from '@heroicons/react/24/solid';
+import { SpeakButton } from './SpeakButton';
+import { SpeechInput } from './SpeechInput';
+import { SentenceTextInput } from './SentenceTextInput';
+import { ArrowPathIcon, CheckCircleIcon, ClockIcon, XCircleIcon, HomeIcon, LightBulbIcon, PlusIcon, AdjustmentsHorizontalIcon, SparklesIcon, FlagIcon, FireIcon, ExclamationTriangleIcon, ForwardIcon, PauseIcon, PencilSquareIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, TrashIcon, UserIcon } from '@heroicons/react/24/solid';
+
+const JUDGE_ERROR_MESSAGES: Record<AiFailureKind, string> = {
+  timeout: "The judge took too long to answer.",
+  network: "Couldn't reach the judge. Check your connection.",
+  server: "The judge's server returned an error.",
+  invalid_response: "The judge's answer couldn't be read.",
+  cancelled: "The check was cancelled.",
+};
+
+export const FEEDBACK_LABELS: Record<ValidationResult['feedbackType'], string> = {
+  perfect: "Perfect",
+  minor_error: "Minor slip",
+  grammar_fail: "Grammar mistake",
+  nonsense: "Doesn't make sense",
+};
+
+// Blinking caret after text the judge is still writing
+const StreamCaret = () => <span className="inline-block w-2 h-5 ml-1 align-middle bg-gray-300 animate-pulse" />;
+
+// One player's turn in a duel: a single sentence answering the round's prompt, then back to the duel
+export interface DuelTurn {
+  player: string; // Name shown in the HUD
+  prompt: DuelPrompt;
+  starter: SentenceSlot[]; // The round's starter slab
+  wordPool: Word[]; // Shared by every player, so nothing is loaded here
+  onDone: (submission: DuelSubmission) => void; // Scored by the duel
+}
 
 interface GameScreenProps {
   settings: GameSettings;
+  duelTurn?: DuelTurn;
   onExit: () => void;
 }
 
+// Picker tab for a part of speech: every verb form lives under 'VERB'
+const getPickerCategory = (type: PartOfSpeech) =>
+    [PartOfSpeech.VERB, PartOfSpeech.VERB_AUX, PartOfSpeech.VERB_INF, PartOfSpeech.VERB_PP].includes(type) ? PartOfSpeech.VERB : type;
+
 // Helper for Sidebar Labels (Full French Names)
 const getCategoryLabel = (type: PartOfSpeech) => {
     switch (type) {
@@ -30,20 +74,19 @@ const getCategoryLabel = (type: PartOfSpeech) => {
     }
 };
 
-export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
+export const GameScreen: React.FC<GameScreenProps> = ({ settings, duelTurn, onExit }) => {
+  // A duel's prompt is either the question this sentence answers or the sentence to translate
+  const duelChallenge = duelTurn?.prompt.kind === 'challenge' ? duelTurn.prompt.text : null;
+  const duelInspiration = duelTurn?.prompt.kind === 'inspiration' ? duelTurn.prompt.text : null;
+
   // --- State ---
-  const [gameState, setGameState] = useState<GameState>({
-    score: 0,
-    sentencesCompleted: 0,
-    timeLeft: 60,
-    isPlaying: true,
-    isGameOver: false,
-  });
+  // Round, scoring and challenge rules live in the game machine; the rest is picker and display state
+  const [state, dispatch] = useReducer(gameReducer, settings, s => createGameState(s, duelChallenge));
+  const { game, slots, activeSlotId, isAddingNew, mergingIndex, validation, isValidating, judgeError, pendingChallenge, activeChallenge, questionHistory, reviewingCard } = state;
 
-  const [slots, setSlots] = useState<SentenceSlot[]>([]);
-  const [activeSlotId, setActiveSlotId] = useState<string | null>(null);
-  const [isAddingNew, setIsAddingNew] = useState(false);
   const [pickerCategory, setPickerCategory] = useState<PartOfSpeech>(PartOfSpeech.VERB);
+  const [pickerSuggestions, setPickerSuggestions] = useState<Word[]>([]); // Replacement(s) for a slot flagged by the judge
+  const [activePart, setActivePart] = useState(0); // Word being changed when the open slot is elided (j'ai)
   
   // Word Pool State
   const [customWords, setCustomWords] = useState<Word[]>([]);
@@ -54,40 +97,54 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
   const [customGender, setCustomGender] = useState<'m' | 'f'>('m');
   const [customNumber, setCustomNumber] = useState<'s' | 'pl'>('s');
 
-  const [validation, setValidation] = useState<ValidationResult | null>(null);
-  const [isValidating, setIsValidating] = useState(false);
+  const [streamingVerdict, setStreamingVerdict] = useState<PartialVerdict | null>(null); // Verdict as it streams in
+  const [speechRate, setSpeechRate] = useState(() => loadSpeechRate());
+  const [speakingSlotId, setSpeakingSlotId] = useState<string | null>(null); // Slot whose word is being read aloud
   
   // Inspiration State
-  const [inspiration, setInspiration] = useState<string | null>(null);
+  const [inspiration, setInspiration] = useState<string | null>(duelInspiration);
   const [isLoadingInspiration, setIsLoadingInspiration] = useState(false);
-  
-  // Merge Animation State
-  const [mergingIndex, setMergingIndex] = useState<number | null>(null);
 
   // Challenge State
-  const [pendingChallenge, setPendingChallenge] = useState<string | null>(null);
-  const [activeChallenge, setActiveChallenge] = useState<string | null>(null);
   const [isChallengeSticky, setIsChallengeSticky] = useState(false);
-  
-  // Question History to prevent repetition
-  const [questionHistory, setQuestionHistory] = useState<string[]>([]);
 
-  // Drag State
+  // Drag State (pointer reordering: mouse, pen and touch)
   const [draggedSlotIndex, setDraggedSlotIndex] = useState<number | null>(null);
+  const [dropTargetIndex, setDropTargetIndex] = useState<number | null>(null);
+  const [isDropBetweenParts, setIsDropBetweenParts] = useState(false); // Dropping inside an elided slot splits it
+  const dragRef = useRef<{ index: number; pointerId: number; startX: number; startY: number } | null>(null);
+  const suppressClickRef = useRef(false); // The click that ends a drag shouldn't open the picker
+
+  // Keyboard & screen reader state
+  const [focusedSlotIndex, setFocusedSlotIndex] = useState(0); // Roving tab stop within the sentence
+  const [pickerFilter, setPickerFilter] = useState('');
+  const [announcement, setAnnouncement] = useState(''); // Polite live region (merges, moves, verdicts)
+  const [isTextEntryOpen, setIsTextEntryOpen] = useState(false); // Type-to-build field under the slab
+
+  // Profile session this game is being recorded into (created on the first judged sentence)
+  const sessionIdRef = useRef<string | null>(null);
+
+  // In-flight AI judge call, cancelled when the player leaves the game
+  const judgeAbortRef = useRef<AbortController | null>(null);
+  // In-flight "Need Idea?" call, cancelled on a new round or when the player leaves
+  const inspirationAbortRef = useRef<AbortController | null>(null);
 
   // Refs for scrolling and observers
   const timerRef = useRef<number | null>(null);
   const topRef = useRef<HTMLDivElement>(null);
   const challengeRef = useRef<HTMLDivElement>(null);
   const pickerRef = useRef<HTMLDivElement>(null);
+  const slabRef = useRef<HTMLDivElement>(null);
+  const pickerGridRef = useRef<HTMLDivElement>(null);
   
-  // Memoize word pool (Combine Common + Topic + Custom)
-  const wordPool = React.useMemo(() => {
-      if (settings.topic === Topic.CUSTOM) {
-          return [...COMMON_WORDS, ...customWords];
-      }
-      return getWordsForGame(settings.topic);
-  }, [settings.topic, customWords]);
+  const difficultyProfile = getDifficultyProfile(settings.difficulty);
+
+  // Teacher lesson pack backing this custom topic, if any
+  const lessonPack = React.useMemo(() => settings.packId ? getPack(settings.packId) : null, [settings.packId]);
+
+  // Memoize word pool (Combine Common + Topic + Custom), sized by difficulty
+  const loadedWordPool = React.useMemo(() => getWordPool(settings, customWords), [settings.topic, settings.difficulty, customWords]);
+  const wordPool = duelTurn?.wordPool || loadedWordPool;
 
   // --- Scroll Logic ---
   const scrollToTop = () => {
@@ -122,74 +179,84 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
   }, [activeChallenge]);
 
   // --- Auto-Merge Elisions (Animated Step-by-Step) ---
+  // The machine marks the pair to merge; the merge itself lands once the snap animation has played
   useEffect(() => {
-    // If currently animating a merge, wait for it to finish.
-    if (mergingIndex !== null) return;
-
-    // Check if any adjacent slots should be merged
-    const candidate = findElisionCandidate(slots);
-    
-    if (candidate) {
-        // Start animation phase
-        setMergingIndex(candidate.index);
-
-        // After animation duration (600ms), apply the merge
-        setTimeout(() => {
-             setSlots(prevSlots => {
-                 // Re-verify the candidate is still valid (in case state changed rapidly)
-                 const freshCandidate = findElisionCandidate(prevSlots);
-                 if (freshCandidate && freshCandidate.index === candidate.index) {
-                     const newSlots = [...prevSlots];
-                     // Replace 2 slots with 1
-                     newSlots.splice(candidate.index, 2, candidate.mergedSlot);
-                     return newSlots;
-                 }
-                 return prevSlots;
-             });
-             setMergingIndex(null);
-        }, 550); // Slightly less than CSS animation to ensure snap feels responsive
+    if (mergingIndex === null) {
+        dispatch({ type: 'MERGE_START' });
+        return;
     }
+    const candidate = nextElision(state);
+    const timeout = setTimeout(() => {
+        if (candidate && candidate.index === mergingIndex) {
+            const [first, second] = [slots[mergingIndex].value?.text, slots[mergingIndex + 1].value?.text];
+            setAnnouncement(candidate.length === 2
+                ? `${first} and ${second} merged into ${candidate.mergedSlot.value?.text}.`
+                : `${first} becomes ${candidate.mergedSlot.value?.text} before ${second}.`);
+        }
+        dispatch({ type: 'MERGE_APPLY' });
+    }, 550); // Slightly less than CSS animation to ensure snap feels responsive
+    return () => clearTimeout(timeout);
   }, [slots, mergingIndex]);
 
+  // --- Keyboard Shortcuts ---
+  // Escape backs out of the picker, Enter moves on once the verdict is showing,
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac) undo and redo sentence edits.
+  // Re-bound on every render so the handlers see current state.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      const isTyping = ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      if ((e.ctrlKey || e.metaKey) && !isTyping && ['z', 'y'].includes(e.key.toLowerCase())) {
+        e.preventDefault();
+        if (e.key.toLowerCase() === 'y' || e.shiftKey) handleRedo();
+        else handleUndo();
+      } else if (e.key === 'Escape') {
+        if (customizingWord) setCustomizingWord(null);
+        else if (activeSlotId || isAddingNew) closePicker();
+      } else if (e.key === 'Enter' && validation && !activeSlotId && !isTyping && target.tagName !== 'BUTTON') {
+        e.preventDefault();
+        handleNext();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   // --- Initialization ---
+  // Cancel any pending AI call on exit
+  useEffect(() => () => {
+    judgeAbortRef.current?.abort();
+    inspirationAbortRef.current?.abort();
+  }, []);
+
   useEffect(() => {
+    const controller = new AbortController();
     const initGame = async () => {
-        if (settings.topic === Topic.CUSTOM && settings.customTopic) {
+        // Duel turns play with the words the duel loaded
+        if (duelTurn || settings.topic !== Topic.CUSTOM) return;
+        // Lesson pack, or same topic as before: reuse the saved vocabulary instead of asking the AI again
+        const saved = findTopicWords(settings);
+        if (saved) {
+            setCustomWords(saved);
+        } else if (settings.customTopic) {
             setIsLoadingWords(true);
-            const pack = await generateWordPack(settings.customTopic);
-            
-            // Process AI Response into Word objects
-            const nouns = pack.nouns.map((n: any) => createWord(n.text, PartOfSpeech.NOUN, n.translation, [n.gender]));
-            const adjs = pack.adjectives.map((a: any) => createWord(a.text, PartOfSpeech.ADJECTIVE, a.translation));
-            
-            // Process Verbs: Add Infinitives
-            const verbs: Word[] = [];
-            pack.verbs.forEach((v: any) => {
-                const text = v.text.toLowerCase();
-                verbs.push(createWord(text, PartOfSpeech.VERB_INF, `to ${v.translation}`));
-            });
-
-            setCustomWords([...nouns, ...adjs, ...verbs]);
+            const words = await generateTopicWords(settings.customTopic, settings.difficulty, { signal: controller.signal });
+            if (controller.signal.aborted) return;
+            setCustomWords(words);
             setIsLoadingWords(false);
         }
     };
     initGame();
-  }, [settings.topic, settings.customTopic]);
+    return () => controller.abort();
+  }, [settings.topic, settings.customTopic, settings.difficulty, lessonPack]);
 
   useEffect(() => {
     if (!isLoadingWords) {
         startNewRound();
         if (settings.mode === GameMode.BLITZ) {
             if (timerRef.current) clearInterval(timerRef.current); // Clear previous if any
-            timerRef.current = window.setInterval(() => {
-                setGameState(prev => {
-                if (prev.timeLeft <= 1) {
-                    if (timerRef.current) clearInterval(timerRef.current);
-                    return { ...prev, timeLeft: 0, isGameOver: true, isPlaying: false };
-                }
-                return { ...prev, timeLeft: prev.timeLeft - 1 };
-                });
-            }, 1000);
+            // The machine keeps the clock still while the judge is thinking
+            timerRef.current = window.setInterval(() => dispatch({ type: 'TICK' }), 1000);
         }
     }
     return () => {
@@ -198,38 +265,50 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isLoadingWords]); // Restart round when words are loaded
 
-  const startNewRound = () => {
-    // Wait for words if still loading
-    if (isLoadingWords) return;
-
-    scrollToTop();
-
-    const starterTypes = getStarterSentence();
-    const newSlots: SentenceSlot[] = starterTypes.map((type, index) => {
-        const wordsOfType = wordPool.filter(w => w.type === type);
-        // Fallback if pool is empty (shouldn't happen with common words, but safety check)
-        const randomWord = wordsOfType.length > 0 
-            ? wordsOfType[Math.floor(Math.random() * wordsOfType.length)]
-            : createWord('?', type, 'error');
-            
+  useEffect(() => {
+    if (game.isGameOver && timerRef.current) clearInterval(timerRef.current);
+  }, [game.isGameOver]);
+
+  // Slots for the next round: the next due card's words shuffled in Review mode (null when none is due),
+  // otherwise the starter sentence drawn from the pool (or the duel round's)
+  const prepareRound = (): RoundSetup => {
+    if (settings.mode === GameMode.REVIEW) {
+        const [card] = getDueCards();
+        if (!card) return null;
         return {
-            id: `slot-${index}-${Date.now()}`,
-            type: type,
-            value: randomWord,
-            placeholder: type.toString(),
+            reviewingCard: card,
+            slots: shuffleWords(card.words).map((word, index) => ({
+                id: `slot-${index}-${Date.now()}`,
+                type: word.type,
+                value: word,
+                placeholder: word.type,
+            })),
         };
-    });
+    }
 
-    setSlots(newSlots);
-    setValidation(null);
-    setActiveSlotId(null);
-    setIsAddingNew(false);
-    setPickerCategory(PartOfSpeech.VERB);
+    // Every player in a duel round starts from the same slab
+    return { slots: duelTurn ? duelTurn.starter : getStarterSlots(wordPool), reviewingCard: null };
+  };
+
+  // Resets the picker and prompts around a new round (the machine resets the sentence itself)
+  const resetRoundUi = (round: RoundSetup) => {
+    scrollToTop();
+    stopSpeaking();
     setCustomizingWord(null);
-    setIsChallengeSticky(false);
-    setMergingIndex(null);
-    setInspiration(null);
+    inspirationAbortRef.current?.abort(); // An idea for the last sentence is no use now
     setIsLoadingInspiration(false);
+    if (!round || round.reviewingCard) return;
+    setPickerCategory(PartOfSpeech.VERB);
+    setIsChallengeSticky(false);
+    setInspiration(duelInspiration);
+  };
+
+  const startNewRound = () => {
+    // Wait for words if still loading
+    if (isLoadingWords) return;
+    const round = prepareRound();
+    resetRoundUi(round);
+    dispatch({ type: 'START_ROUND', round });
   };
 
   // --- Derived Data: Filtered Categories ---
@@ -247,64 +326,224 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
     ];
   }, []);
 
-  // --- Drag and Drop Logic ---
-  const handleDragStart = (e: React.DragEvent, index: number) => {
-    if (mergingIndex !== null) { e.preventDefault(); return; } // Disable drag during merge
-    setDraggedSlotIndex(index);
-    // Required for Firefox
-    e.dataTransfer.effectAllowed = "move";
+  // --- Reordering ---
+  // Pointer events instead of HTML5 drag and drop, which never fires on touch screens
+  const DRAG_THRESHOLD_PX = 6;
+  const canReorder = canEditSlots(state);
+
+  const moveSlot = (from: number, to: number, betweenParts = false) => {
+    if (from === to || to < 0 || to >= slots.length) return;
+    dispatch({ type: 'MOVE_SLOT', from, to, betweenParts });
+    const parts = unmergeSlot(slots[to]);
+    setAnnouncement(betweenParts && parts.length > 1
+        ? `Moved ${slots[from].value?.text || 'block'} between ${parts.map(p => p.value?.text).join(' and ')}.`
+        : `Moved ${slots[from].value?.text || 'block'} to position ${to + 1} of ${slots.length}.`);
+  };
+
+  // Focuses a slot once the re-render that moved or removed blocks has happened
+  const focusSlot = (index: number) => {
+    setFocusedSlotIndex(index);
+    requestAnimationFrame(() => {
+      slabRef.current?.querySelector<HTMLElement>(`[data-slot-index="${index}"]`)?.focus({ preventScroll: true });
+    });
+  };
+
+  // Closest slot to the pointer (the slab wraps on wide screens, so both axes count)
+  const slotIndexAtPoint = (x: number, y: number): number | null => {
+    let closest: number | null = null;
+    let closestDistance = Infinity;
+    const elements: HTMLElement[] = slabRef.current ? Array.from(slabRef.current.querySelectorAll<HTMLElement>('[data-slot-index]')) : [];
+    for (const el of elements) {
+      const rect = el.getBoundingClientRect();
+      const distance = Math.hypot(x - (rect.left + rect.width / 2), y - (rect.top + rect.height / 2));
+      if (distance < closestDistance) {
+        closest = Number(el.dataset.slotIndex);
+        closestDistance = distance;
+      }
+    }
+    return closest;
   };
 
-  const handleDragOver = (e: React.DragEvent) => {
-    e.preventDefault(); // Necessary to allow dropping
+  // Whether the pointer is over the seam of an elided slot (its middle fifth), between its two words
+  const isOverSeam = (index: number, x: number): boolean => {
+    if ((slots[index]?.parts?.length || 0) < 2) return false;
+    const rect = slabRef.current?.querySelector<HTMLElement>(`[data-slot-index="${index}"]`)?.getBoundingClientRect();
+    return !!rect && Math.abs(x - (rect.left + rect.width / 2)) < rect.width * 0.1;
   };
 
-  const handleDrop = (e: React.DragEvent, targetIndex: number) => {
-    e.preventDefault();
-    if (draggedSlotIndex === null || draggedSlotIndex === targetIndex || mergingIndex !== null) return;
+  const handleSlotPointerDown = (e: React.PointerEvent, index: number) => {
+    suppressClickRef.current = false;
+    if (e.button !== 0 || !canReorder) return;
+    dragRef.current = { index, pointerId: e.pointerId, startX: e.clientX, startY: e.clientY };
+  };
 
-    const newSlots = [...slots];
-    const [draggedItem] = newSlots.splice(draggedSlotIndex, 1);
-    newSlots.splice(targetIndex, 0, draggedItem);
+  const handleSlotPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    if (draggedSlotIndex === null) {
+      // Small wobbles are still clicks
+      if (Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) < DRAG_THRESHOLD_PX) return;
+      e.currentTarget.setPointerCapture(e.pointerId); // Keep receiving moves once the pointer leaves the block
+      setDraggedSlotIndex(drag.index);
+    }
+    const target = slotIndexAtPoint(e.clientX, e.clientY);
+    setDropTargetIndex(target);
+    setIsDropBetweenParts(target !== null && target !== drag.index && isOverSeam(target, e.clientX));
+  };
 
-    setSlots(newSlots);
+  const handleSlotPointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    dragRef.current = null;
+    if (draggedSlotIndex !== null) {
+      suppressClickRef.current = true;
+      if (e.type === 'pointerup' && dropTargetIndex !== null) moveSlot(drag.index, dropTargetIndex, isDropBetweenParts);
+    }
     setDraggedSlotIndex(null);
+    setDropTargetIndex(null);
+    setIsDropBetweenParts(false);
+  };
+
+  // Arrows move between blocks, Alt+arrows move the block itself, Enter/Space opens the picker, Delete removes
+  const handleSlotKeyDown = (e: React.KeyboardEvent, index: number) => {
+    switch (e.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        e.preventDefault();
+        const target = index + (e.key === 'ArrowLeft' ? -1 : 1);
+        if (target < 0 || target >= slots.length) return;
+        if (e.altKey) {
+          if (!canReorder) return;
+          moveSlot(index, target);
+        }
+        focusSlot(target);
+        return;
+      }
+      case 'Home':
+        e.preventDefault();
+        focusSlot(0);
+        return;
+      case 'End':
+        e.preventDefault();
+        focusSlot(slots.length - 1);
+        return;
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        e.stopPropagation(); // Not the "next sentence" shortcut
+        handleSlotClick(slots[index].id);
+        return;
+      case 'Delete':
+      case 'Backspace':
+        e.preventDefault();
+        if (removeSlot(slots[index].id) && slots.length > 1) focusSlot(Math.min(index, slots.length - 2));
+        return;
+    }
   };
 
   // --- Interactions ---
 
+  // Words from the pool (or their inflections) matching the judge's expected text for a slot
+  const getSuggestedWords = (error: GrammarError): Word[] => {
+      if (!error.expected) return [];
+      const candidates = buildCandidateWords(wordPool, settings.tense);
+      const suggestions: Word[] = [];
+      splitElisions(error.expected).forEach(token => {
+          const word = resolveToken(token, candidates);
+          if (word && !suggestions.some(w => w.text === word.text)) suggestions.push(word);
+      });
+      return suggestions;
+  };
+
   const handleSlotClick = (id: string) => {
-    if (validation || mergingIndex !== null) return; // Disable click during merge
-    setActiveSlotId(activeSlotId === id ? null : id);
-    setIsAddingNew(false);
+    if (suppressClickRef.current) {
+        suppressClickRef.current = false;
+        return;
+    }
+    const slotIndex = slots.findIndex(s => s.id === id);
+    if (!canOpenSlot(state, slotIndex)) return;
+    const error = slotErrors.get(slotIndex);
+    dispatch({ type: 'SELECT_SLOT', slotId: id });
     setCustomizingWord(null);
+    setPickerFilter('');
+    setFocusedSlotIndex(slotIndex);
     scrollToPicker();
+
+    const suggestions = error ? getSuggestedWords(error) : [];
+    setPickerSuggestions(suggestions);
     
-    const slot = slots.find(s => s.id === id);
-    if (slot) {
-        // If slot is Aux/Inf/PP, select 'VERB' category
-        if ([PartOfSpeech.VERB, PartOfSpeech.VERB_AUX, PartOfSpeech.VERB_INF, PartOfSpeech.VERB_PP].includes(slot.type)) {
-            setPickerCategory(PartOfSpeech.VERB);
-        } else {
-            setPickerCategory(slot.type);
-        }
-    }
+    // Elided slots change their main word (the "ai" of "j'ai") unless another part is picked
+    const parts = unmergeSlot(slots[slotIndex]);
+    setActivePart(parts.length - 1);
+
+    const slot = suggestions.length > 0 ? { type: suggestions[0].type } : parts[parts.length - 1];
+    if (slot) setPickerCategory(getPickerCategory(slot.type));
+  };
+
+  const handleSelectPart = (part: number, slot: SentenceSlot) => {
+      setActivePart(part);
+      setCustomizingWord(null);
+      setPickerSuggestions([]);
+      setPickerCategory(getPickerCategory(slot.type));
+  };
+
+  // Takes one word out of an elided slot; the other stays as its own block
+  const handleRemovePart = (part: number) => {
+      if (!activeSlotId || !canEditSlots(state)) return;
+      const removed = unmergeSlot(slots.find(s => s.id === activeSlotId)!)[part];
+      const index = slots.findIndex(s => s.id === activeSlotId);
+      dispatch({ type: 'REMOVE_SLOT', slotId: activeSlotId, part });
+      setCustomizingWord(null);
+      setPickerSuggestions([]);
+      setAnnouncement(`Removed ${removed?.value?.text || 'block'}.`);
+      focusSlot(index);
   };
 
   const handleAddNewClick = () => {
-      if (validation || mergingIndex !== null) return;
-      setIsAddingNew(true);
-      setActiveSlotId(null);
+      if (!canEditSlots(state)) return;
+      dispatch({ type: 'OPEN_ADD' });
       setCustomizingWord(null);
+      setPickerSuggestions([]);
+      setPickerFilter('');
       setPickerCategory(PartOfSpeech.VERB); 
       scrollToPicker();
   };
 
+  // Returns false when removing isn't allowed right now (after validation, during a merge)
+  const removeSlot = (id: string): boolean => {
+      if (!canEditSlots(state)) return false;
+      const removed = slots.find(s => s.id === id);
+      dispatch({ type: 'REMOVE_SLOT', slotId: id });
+      setAnnouncement(`Removed ${removed?.value?.text || 'block'}.`);
+      return true;
+  };
+
   const handleRemoveSlot = (e: React.MouseEvent, id: string) => {
       e.stopPropagation();
-      if (validation || mergingIndex !== null) return;
-      setSlots(prev => prev.filter(s => s.id !== id));
-      if (activeSlotId === id) setActiveSlotId(null);
+      removeSlot(id);
+  };
+
+  const handleUndo = () => {
+      if (!canUndo(state)) return;
+      dispatch({ type: 'UNDO' });
+      setCustomizingWord(null);
+      setAnnouncement('Undone.');
+  };
+
+  const handleRedo = () => {
+      if (!canRedo(state)) return;
+      dispatch({ type: 'REDO' });
+      setCustomizingWord(null);
+      setAnnouncement('Redone.');
+  };
+
+  const closePicker = () => {
+      const index = slots.findIndex(s => s.id === activeSlotId);
+      dispatch({ type: 'CLOSE_PICKER' });
+      setCustomizingWord(null);
+      setPickerSuggestions([]);
+      setPickerFilter('');
+      if (index !== -1) focusSlot(index);
   };
 
   const handleInitialWordSelect = (word: Word) => {
@@ -325,21 +564,13 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
   };
 
   const commitWordSelection = (word: Word) => {
-    if (activeSlotId) {
-        setSlots(prev => prev.map(slot => 
-            slot.id === activeSlotId ? { ...slot, value: word, type: word.type } : slot
-        ));
-        setActiveSlotId(null);
-    } else if (isAddingNew) {
-        const newSlot: SentenceSlot = {
-            id: `slot-${Date.now()}-${Math.random()}`,
-            type: word.type,
-            value: word,
-            placeholder: word.type
-        };
-        setSlots(prev => [...prev, newSlot]);
-    }
+    setAnnouncement(`${word.text} placed.`);
+    dispatch({ type: 'ADD_WORD', word, newSlotId: `slot-${Date.now()}-${Math.random()}`, part: activePart });
+    if (activeSlotId) focusSlot(slots.findIndex(s => s.id === activeSlotId));
+    else if (isAddingNew) focusSlot(slots.length);
     setCustomizingWord(null);
+    setPickerSuggestions([]);
+    setPickerFilter('');
   };
 
   const handleConfirmVariation = () => {
@@ -348,11 +579,19 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
       commitWordSelection(variedWord);
   };
 
+  // Speech or typed input: the text replaces the sentence; words outside the pool become unknown blocks
+  const handleBuildFromText = (text: string) => {
+      dispatch({ type: 'LOAD_SENTENCE', slots: tokensToSlots(parseSentence(text, wordPool, settings.tense)) });
+      setCustomizingWord(null);
+      setPickerSuggestions([]);
+  };
+
   const handleCheckSentence = async () => {
     if (slots.length === 0) return;
 
     scrollToPicker(); // Ensure validation result is visible
-    setIsValidating(true);
+    dispatch({ type: 'VALIDATE_START' });
+    setStreamingVerdict(null);
     
     // Auto-apply French Elision (Contractions) for valid string generation
     // Even if visual merge happened, this ensures text is clean.
@@ -362,65 +601,108 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
         ? `${Topic.CUSTOM}: ${settings.customTopic}` 
         : settings.topic;
 
-    const result = await validateSentence(
-        sentenceStr, 
-        settings.tense, 
-        topicForValidation as Topic,
-        wordPool,
-        activeChallenge,
-        questionHistory // Pass history to prevent redundancy
-    );
-    
-    setValidation(result);
-    setIsValidating(false);
-    setActiveSlotId(null);
-    setIsAddingNew(false);
+    judgeAbortRef.current?.abort();
+    const controller = new AbortController();
+    judgeAbortRef.current = controller;
+
+    const outcome: ValidationOutcome = settings.mode === GameMode.REVIEW && reviewingCard
+        ? { status: 'verdict', result: judgeRebuild(reviewingCard, sentenceStr) }
+        : await validateSentence(
+            sentenceStr, 
+            settings.tense, 
+            topicForValidation as Topic,
+            wordPool,
+            activeChallenge,
+            questionHistory, // Pass history to prevent redundancy
+            slots, // Lets the offline grammar engine inspect word tags
+            settings.difficulty,
+            {
+                signal: controller.signal,
+                // Ignore chunks from a check that was superseded
+                onPartial: partial => { if (judgeAbortRef.current === controller) setStreamingVerdict(partial); },
+            }
+        );
+
+    setStreamingVerdict(null);
+
+    // No verdict: offer retry/skip instead of scoring anything
+    if (outcome.status === 'error') {
+        dispatch({ type: 'VALIDATE_FAILURE', error: outcome.error });
+        if (outcome.error.kind !== 'cancelled') {
+            setAnnouncement(`No verdict. ${JUDGE_ERROR_MESSAGES[outcome.error.kind]}`);
+        }
+        return;
+    }
+    const result = outcome.result;
+    setAnnouncement(`${result.isValid ? 'Correct!' : 'Not quite.'} ${result.explanation}${!result.isValid && result.correction ? ` Correction: ${result.correction}` : ''}`);
+
     setCustomizingWord(null);
 
-    if (result.isValid) {
-      const basePoints = 10 + (slots.length > 5 ? 5 : 0);
-      const bonusPoints = activeChallenge ? 20 : 0;
-
-      setGameState(prev => ({
-        ...prev,
-        score: prev.score + basePoints + bonusPoints,
-        sentencesCompleted: prev.sentencesCompleted + 1,
-        timeLeft: settings.mode === GameMode.BLITZ ? prev.timeLeft + (activeChallenge ? 15 : 10) : prev.timeLeft
-      }));
-
-      if (result.followUpQuestion) {
-          setPendingChallenge(result.followUpQuestion);
-          // Add to history so it isn't repeated immediately
-          setQuestionHistory(prev => [...prev.slice(-9), result.followUpQuestion!]); // Keep last 10
-      } else {
-          setPendingChallenge(null);
-      }
+    // Duels are often played on someone else's device: they stay out of its profile and review queue
+    if (!duelTurn) {
+        // Feed the spaced-repetition queue: reschedule the reviewed card, or store a new mistake
+        if (settings.mode === GameMode.REVIEW && reviewingCard) {
+            reviewCard(reviewingCard.id, result.isValid ? 5 : 1);
+        } else {
+            addReviewCard(sentenceStr, result, wordPool, settings.tense);
+        }
+
+        const points = pointsForVerdict(state, result);
+        sessionIdRef.current = recordSentence(
+            sessionIdRef.current,
+            settings,
+            { sentence: sentenceStr, result, points, challenge: activeChallenge, timestamp: Date.now() },
+            game.score + points
+        );
     }
+
+    // Lesson packs can supply their own questions when the judge doesn't ask one
+    const packChallenge = result.isValid && !result.followUpQuestion && lessonPack ? pickPackChallenge(lessonPack, questionHistory) : null;
+    dispatch({ type: 'VALIDATE_SUCCESS', result, packChallenge });
   };
 
+  // Give up on a sentence the judge couldn't answer for; nothing is scored or recorded
+  const handleSkipAfterError = () => handleNext();
+
   const handleGetInspiration = async () => {
+      // Teacher-written model sentences take priority over AI ideas
+      const model = lessonPack ? pickModelSentence(lessonPack) : null;
+      if (model) {
+          setInspiration(model.english);
+          return;
+      }
+      inspirationAbortRef.current?.abort();
+      const controller = new AbortController();
+      inspirationAbortRef.current = controller;
       setIsLoadingInspiration(true);
-      const res = await generateInspiration(wordPool, settings.tense);
-      setInspiration(res.englishSentence);
+      const outcome = await generateInspiration(wordPool, settings.tense, { signal: controller.signal });
+      if (controller.signal.aborted) return;
       setIsLoadingInspiration(false);
+      if (outcome.status === 'inspiration') setInspiration(outcome.englishSentence);
+      else setAnnouncement(`No idea this time. ${JUDGE_ERROR_MESSAGES[outcome.error.kind]}`);
   }
 
   const handleNext = () => {
-    setActiveChallenge(null);
-    setPendingChallenge(null);
-
-    if (settings.mode === GameMode.STANDARD && gameState.sentencesCompleted >= 10) {
-      setGameState(prev => ({ ...prev, isGameOver: true, isPlaying: false }));
-    } else {
-      startNewRound();
+    // A duel turn is one sentence: the verdict (or the skip) goes back to the duel
+    if (duelTurn) {
+        stopSpeaking();
+        duelTurn.onDone({
+            sentence: applyFrenchElision(slots.map(s => s.value?.text).join(' ')),
+            result: validation,
+            slotCount: slots.length,
+        });
+        return;
     }
+    const round = prepareRound();
+    resetRoundUi(round);
+    dispatch({ type: 'NEXT', round });
   };
 
   const handleAcceptChallenge = () => {
       if (!pendingChallenge) return;
-      setActiveChallenge(pendingChallenge);
-      setPendingChallenge(null);
-      startNewRound(); 
+      const round = prepareRound();
+      resetRoundUi(round);
+      dispatch({ type: 'ACCEPT_CHALLENGE', round });
   };
 
   // --- Filtering Logic for Sidebar and Grid ---
@@ -448,14 +730,85 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
   };
   
   const sortedWords = getFilteredWords();
+
+  // Accent-insensitive match on the French word or its translation
+  const normalizeForFilter = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  const filterQuery = normalizeForFilter(pickerFilter.trim());
+  const pickerWords = pickerSuggestions.length > 0
+      ? pickerSuggestions
+      : filterQuery
+          ? sortedWords.filter(w => normalizeForFilter(w.text).includes(filterQuery) || normalizeForFilter(w.translation).includes(filterQuery))
+          : sortedWords;
+
+  // Suggestions are already inflected, so they go straight into the slot
+  const pickWord = (word: Word) => pickerSuggestions.length > 0 ? commitWordSelection(word) : handleInitialWordSelect(word);
+
+  const handlePickerFilterKeyDown = (e: React.KeyboardEvent) => {
+      if (e.key === 'Enter' && pickerWords.length > 0) {
+          e.preventDefault();
+          e.stopPropagation();
+          pickWord(pickerWords[0]);
+      } else if (e.key === 'ArrowDown') {
+          e.preventDefault();
+          pickerGridRef.current?.querySelector<HTMLElement>('button')?.focus();
+      }
+  };
+
+  // Read-aloud text for the slab, with each filled slot's position in it for word highlighting
+  const spokenSlots = slots.filter(s => s.value);
+  const spoken = spokenWordStarts(spokenSlots.map(s => s.value!.text));
+
+  const cycleSpeechRate = () => {
+      const next = SPEECH_RATES[(SPEECH_RATES.indexOf(speechRate) + 1) % SPEECH_RATES.length];
+      setSpeechRate(next);
+      saveSpeechRate(next);
+  };
+
+  // The forge animation hands off to the result card as soon as the streamed verdict is known
+  const streamedVerdict = isValidating && streamingVerdict?.isValid !== undefined ? streamingVerdict : null;
+  const resultCard: Partial<ValidationResult> | null = validation || streamedVerdict;
+  const offeredChallenge = streamedVerdict ? streamedVerdict.followUpQuestion : pendingChallenge;
   
+  // Slots the judge pointed at as part of a mistake (first error listed wins)
+  const slotErrors = new Map<number, GrammarError>();
+  (validation?.errors || []).forEach(error => {
+      error.slotIndices.forEach(i => { if (!slotErrors.has(i)) slotErrors.set(i, error); });
+  });
+
+  // Slots taken by the merge being animated (respelling "ma" as "mon" leaves the next word alone)
+  const mergeLength = mergingIndex !== null ? nextElision(state)?.length ?? 2 : 2;
+
+  // Words of the open slot when it is elided (empty otherwise)
+  const activeSlot = slots.find(s => s.id === activeSlotId);
+  const activeParts = activeSlot?.parts || [];
+
+  // Subject pronoun placed before the slot being edited (used to pre-conjugate for beginners)
+  const getSubjectForVerb = (): string | null => {
+      const insertIndex = activeSlotId ? slots.findIndex(s => s.id === activeSlotId) : slots.length;
+      // In an elided slot the subject may be the part before the word being changed (j'|ai)
+      const before = [...slots.slice(0, insertIndex), ...activeParts.slice(0, activePart)];
+      const subject = before.reverse().find(s => s.type === PartOfSpeech.SUBJECT && s.value);
+      if (!subject?.value) return null;
+      const text = subject.value.text;
+      return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+  };
+
   // Logic for Customizer Previews
   let previewVariation = null;
   let verbForms = null;
+  let isPreConjugated = false;
 
   if (customizingWord) {
       if (customizingWord.type === PartOfSpeech.VERB_INF) {
-         verbForms = getVerbForms(customizingWord);
+         verbForms = getVerbForms(customizingWord, settings.tense);
+         if (difficultyProfile.preConjugate) {
+             const subject = getSubjectForVerb();
+             const matching = subject ? verbForms.conjugations.filter(c => c.tags?.includes(subject)) : [];
+             if (matching.length > 0) {
+                 verbForms = { ...verbForms, conjugations: matching };
+                 isPreConjugated = true;
+             }
+         }
       } else if (customizingWord.type === PartOfSpeech.NOUN || customizingWord.type === PartOfSpeech.ADJECTIVE) {
          previewVariation = generateVariations(customizingWord, customGender, customNumber);
       }
@@ -473,13 +826,16 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
   }
 
   // --- Game Over View ---
-  if (gameState.isGameOver) {
+  if (game.isGameOver) {
     return (
       <div className="min-h-screen bg-honeycomb bg-fixed flex flex-col items-center justify-center p-8">
         <h1 className="text-5xl font-extrabold mb-4 animate-bounce-short text-french-blue">C'est Fini!</h1>
         <div className="bg-white text-gray-800 p-8 rounded-2xl shadow-2xl w-full max-w-md text-center border-t-8 border-honey-400">
           <p className="text-gray-500 uppercase tracking-widest text-sm font-bold mb-2">Total Score</p>
-          <p className="text-6xl font-black text-french-blue mb-6">{gameState.score}</p>
+          <p className="text-6xl font-black text-french-blue mb-6">{game.score}</p>
+          {settings.mode === GameMode.REVIEW && (
+            <p className="text-gray-500 font-semibold mb-6">All caught up! Come back later for your next reviews.</p>
+          )}
           <button 
             onClick={onExit}
             className="w-full bg-french-red text-white py-3 rounded-lg font-bold hover:bg-red-600 transition shadow-lg clip-hex-btn"
@@ -504,7 +860,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
                     <HomeIcon className="w-6 h-6" />
                 </button>
                 <div className={`flex-col hidden md:flex ${isChallengeSticky ? 'opacity-0 md:opacity-100' : 'opacity-100'} transition-opacity duration-300`}>
-                    <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">{settings.mode}</span>
+                    <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">{settings.mode} · {settings.difficulty}</span>
                     <div className="flex items-center gap-1">
                         <span className="w-2 h-2 bg-honey-400 rotate-45"></span>
                         <span className="font-bold text-gray-800 max-w-[150px] truncate">{settings.topic === Topic.CUSTOM ? settings.customTopic : settings.topic}</span>
@@ -523,7 +879,14 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
 
             <div className="flex items-center gap-4 md:gap-6 flex-1 justify-end">
                 {/* Inspiration Button */}
-                {!activeChallenge && !validation && (
+                {duelTurn && (
+                    <div className="flex items-center gap-1 text-sm font-bold text-indigo-600" title="Playing now">
+                        <UserIcon className="w-5 h-5" />
+                        <span className="max-w-[120px] truncate">{duelTurn.player}</span>
+                    </div>
+                )}
+
+                {!activeChallenge && !validation && !reviewingCard && !duelTurn && (
                     <button 
                         onClick={handleGetInspiration}
                         disabled={isLoadingInspiration || !!inspiration}
@@ -544,7 +907,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
 
                 {settings.mode === GameMode.ZEN && (
                     <button 
-                        onClick={() => setGameState(prev => ({ ...prev, isGameOver: true, isPlaying: false }))}
+                        onClick={() => dispatch({ type: 'END_GAME' })}
                         className="flex items-center gap-1 text-xs font-bold text-gray-400 hover:text-french-red transition uppercase tracking-wider mr-4"
                         title="Finish Session"
                     >
@@ -554,13 +917,13 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
                 )}
 
                 {settings.mode === GameMode.BLITZ && (
-                    <div className={`flex items-center gap-2 font-mono text-xl font-bold ${gameState.timeLeft <= 10 ? 'text-red-500 animate-pulse-fast' : 'text-gray-700'}`}>
-                    <ClockIcon className="w-5 h-5" />
-                    {gameState.timeLeft}s
+                    <div className={`flex items-center gap-2 font-mono text-xl font-bold ${game.timeLeft <= 10 ? 'text-red-500 animate-pulse-fast' : 'text-gray-700'}`}>
+                    {isValidating ? <PauseIcon className="w-5 h-5" title="Clock paused while the judge thinks" /> : <ClockIcon className="w-5 h-5" />}
+                    {game.timeLeft}s
                     </div>
                 )}
                 <div className="bg-gradient-to-r from-honey-400 to-honey-500 text-white px-4 py-1 font-bold shadow-md clip-hex-btn shrink-0">
-                    {gameState.score} pts
+                    {game.score} pts
                 </div>
             </div>
           </div>
@@ -572,37 +935,60 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
                 <p className="font-medium text-sm md:text-base">
                     Try translating: <span className="font-bold font-serif italic ml-1">"{inspiration}"</span>
                 </p>
-                <button onClick={() => setInspiration(null)} className="absolute right-4 text-indigo-200 hover:text-white">
-                    <XCircleIcon className="w-5 h-5" />
-                </button>
+                {!isValidating && <SpeechInput onTranscript={handleBuildFromText} />}
+                {!duelTurn && (
+                    <button onClick={() => setInspiration(null)} className="absolute right-4 text-indigo-200 hover:text-white">
+                        <XCircleIcon className="w-5 h-5" />
+                    </button>
+                )}
              </div>
           )}
 
           {/* Persistent Sentence Slab */}
           <div className="bg-white/80 backdrop-blur-lg border-b border-gray-200 p-4 transition-all duration-300 overflow-x-auto flex-nowrap md:flex-wrap">
               <div className="max-w-6xl mx-auto w-full flex items-center justify-center gap-2 min-w-max md:min-w-0 px-2">
+                <div
+                    ref={slabRef}
+                    role="listbox"
+                    aria-label="Your sentence. Arrow keys move between words, Alt+arrows move a word, Enter changes it, Delete removes it."
+                    aria-orientation="horizontal"
+                    className="contents"
+                    onFocus={(e) => {
+                        const index = (e.target as HTMLElement).dataset.slotIndex;
+                        if (index !== undefined) setFocusedSlotIndex(Number(index));
+                    }}
+                >
                 {slots.map((slot, index) => (
                     <WordSlot 
                     key={slot.id} 
                     slot={slot} 
                     index={index}
                     isActive={slot.id === activeSlotId} 
+                    error={slotErrors.get(index)}
+                    isSpeaking={slot.id === speakingSlotId}
+                    isDragging={index === draggedSlotIndex}
+                    isDropTarget={draggedSlotIndex !== null && index === dropTargetIndex && index !== draggedSlotIndex}
+                    isSplitTarget={draggedSlotIndex !== null && index === dropTargetIndex && isDropBetweenParts}
+                    isFocusable={index === Math.min(focusedSlotIndex, slots.length - 1)}
                     isMerging={
                         mergingIndex !== null 
-                        ? (index === mergingIndex ? 'left' : (index === mergingIndex + 1 ? 'right' : undefined))
+                        ? (index === mergingIndex ? 'left' : (index === mergingIndex + 1 && mergeLength === 2 ? 'right' : undefined))
                         : undefined
                     }
                     onClick={() => handleSlotClick(slot.id)}
                     onRemove={(e) => handleRemoveSlot(e, slot.id)}
-                    onDragStart={handleDragStart}
-                    onDragOver={handleDragOver}
-                    onDrop={handleDrop}
+                    onKeyDown={handleSlotKeyDown}
+                    onPointerDown={handleSlotPointerDown}
+                    onPointerMove={handleSlotPointerMove}
+                    onPointerUp={handleSlotPointerUp}
                     />
                 ))}
+                </div>
                 
                 {!validation && (
                     <button
                         onClick={handleAddNewClick}
+                        aria-label="Add a word"
                         className={`h-24 w-16 md:w-20 clip-hex-btn border-2 border-dashed flex-shrink-0 flex items-center justify-center transition-all duration-200
                         ${isAddingNew 
                             ? 'border-indigo-400 bg-indigo-50 text-indigo-500 scale-105 shadow-md' 
@@ -612,7 +998,68 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
                         <PlusIcon className="w-8 h-8" />
                     </button>
                 )}
+
+                {!validation && (
+                    <div className="flex flex-col flex-shrink-0">
+                        <button
+                            onClick={handleUndo}
+                            disabled={!canUndo(state)}
+                            aria-label="Undo"
+                            title="Undo (Ctrl+Z)"
+                            className="p-2 rounded-full text-gray-400 hover:text-indigo-600 transition disabled:opacity-30 disabled:cursor-not-allowed"
+                        >
+                            <ArrowUturnLeftIcon className="w-5 h-5" />
+                        </button>
+                        <button
+                            onClick={handleRedo}
+                            disabled={!canRedo(state)}
+                            aria-label="Redo"
+                            title="Redo (Ctrl+Shift+Z)"
+                            className="p-2 rounded-full text-gray-400 hover:text-indigo-600 transition disabled:opacity-30 disabled:cursor-not-allowed"
+                        >
+                            <ArrowUturnRightIcon className="w-5 h-5" />
+                        </button>
+                    </div>
+                )}
+
+                {!validation && (
+                    <button
+                        onClick={() => setIsTextEntryOpen(open => !open)}
+                        aria-pressed={isTextEntryOpen}
+                        aria-label="Type the sentence instead"
+                        title="Type the sentence instead"
+                        className={`p-2 rounded-full flex-shrink-0 transition ${isTextEntryOpen ? 'text-indigo-600 bg-indigo-50' : 'text-gray-400 hover:text-indigo-600'}`}
+                    >
+                        <PencilSquareIcon className="w-5 h-5" />
+                    </button>
+                )}
+
+                {spokenSlots.length > 0 && (
+                    <div className="flex flex-col items-center flex-shrink-0 ml-2">
+                        <SpeakButton
+                            text={spoken.sentence}
+                            rate={speechRate}
+                            onWord={(charIndex) => setSpeakingSlotId(spokenSlots[wordIndexAt(spoken.starts, charIndex)]?.id || null)}
+                            onEnd={() => setSpeakingSlotId(null)}
+                        />
+                        <button
+                            onClick={cycleSpeechRate}
+                            className="text-xs font-bold text-gray-400 hover:text-french-blue transition"
+                            title="Speaking speed"
+                        >
+                            {speechRate}×
+                        </button>
+                    </div>
+                )}
               </div>
+
+              {isTextEntryOpen && !validation && (
+                  <SentenceTextInput
+                      initialText={spoken.sentence}
+                      unknownSlots={slots.filter(s => s.unknown)}
+                      onBuild={handleBuildFromText}
+                  />
+              )}
           </div>
       </div>
 
@@ -621,7 +1068,16 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
         
         {/* Hints / Challenge Info */}
         <div className="mt-4" ref={challengeRef}>
-            {activeChallenge ? (
+            {reviewingCard ? (
+                <div className="mb-6 w-full max-w-3xl bg-white border-l-4 border-indigo-400 rounded-lg shadow-sm px-4 py-3">
+                    <h3 className="uppercase tracking-widest font-black text-xs text-indigo-400 mb-1 flex items-center gap-1">
+                        <ArrowPathIcon className="w-4 h-4" />
+                        Review · Rebuild the corrected sentence
+                    </h3>
+                    <p className="text-lg font-serif italic text-gray-800">"{reviewingCard.translation}"</p>
+                    <p className="text-sm text-gray-400 mt-1">You once wrote: <span className="line-through">{reviewingCard.sentence}</span></p>
+                </div>
+            ) : activeChallenge ? (
                 <div className={`mb-6 w-full max-w-3xl transition-opacity duration-300 ${isChallengeSticky ? 'opacity-0' : 'opacity-100'}`}>
                     <div className="bg-gradient-to-r from-orange-500 to-red-500 text-white p-4 rounded-xl shadow-lg border-2 border-orange-300 relative overflow-hidden">
                         <div className="relative z-10 flex flex-col md:flex-row items-center gap-4">
@@ -633,6 +1089,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
                                 <p className="text-xl md:text-2xl font-serif font-bold italic">"{activeChallenge}"</p>
                                 <p className="text-sm opacity-80 mt-1">Build a response to this question.</p>
                             </div>
+                            {!validation && !isValidating && <SpeechInput onTranscript={handleBuildFromText} />}
                         </div>
                         {/* Background deco */}
                         <div className="absolute -right-4 -bottom-10 w-32 h-32 bg-white opacity-10 rotate-45"></div>
@@ -650,31 +1107,98 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
         <div ref={pickerRef} className="w-full max-w-5xl min-h-[32rem] transition-all duration-300 relative scroll-mt-48">
           
           {/* Default Empty State */}
-          {!activeSlotId && !isAddingNew && !validation && !isValidating && (
+          {!activeSlotId && !isAddingNew && !validation && !isValidating && !judgeError && (
              <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-400 border-2 border-dashed border-gray-300 rounded-3xl bg-white/50 backdrop-blur-sm">
                 <p className="font-medium">Click <span className="font-bold text-indigo-400">+</span> to add words.</p>
              </div>
           )}
 
           {/* Forge Animation during Validation */}
-          {isValidating && <ForgeLoading slots={slots} />}
+          {isValidating && !streamedVerdict && <ForgeLoading slots={slots} />}
+
+          {/* Judge Failure (no verdict): retry or move on */}
+          {judgeError && !isValidating && !activeSlotId && !isAddingNew && (
+             <div className="absolute inset-0 z-20 rounded-3xl shadow-2xl border-4 border-amber-300 p-8 flex flex-col items-center justify-center text-center animate-fadeIn bg-white">
+                <div className="p-4 rounded-full bg-amber-100 mb-4">
+                    <ExclamationTriangleIcon className="w-10 h-10 text-amber-500" />
+                </div>
+                <h3 className="text-2xl font-black text-gray-800 mb-2">No verdict this time</h3>
+                <p className="text-gray-600 text-lg mb-1">{JUDGE_ERROR_MESSAGES[judgeError.kind]}</p>
+                <p className="text-gray-400 text-sm mb-8">Your sentence wasn't judged, so nothing was counted.</p>
+                <div className="flex gap-4">
+                    <button
+                        onClick={handleCheckSentence}
+                        className="px-8 py-3 bg-french-blue text-white font-bold clip-hex-btn shadow-md hover:bg-blue-700 transition flex items-center gap-2"
+                    >
+                        <ArrowPathIcon className="w-5 h-5" />
+                        Try Again
+                    </button>
+                    <button
+                        onClick={handleSkipAfterError}
+                        className="px-8 py-3 bg-gray-100 text-gray-600 font-bold clip-hex-btn hover:bg-gray-200 transition flex items-center gap-2"
+                    >
+                        <ForwardIcon className="w-5 h-5" />
+                        Skip
+                    </button>
+                </div>
+             </div>
+          )}
 
           {/* Word Picker */}
           {!isValidating && (activeSlotId || isAddingNew) && (
-             <div className="bg-white rounded-3xl shadow-xl border border-gray-200 flex flex-col animate-fadeIn absolute inset-0 z-10 overflow-hidden">
+             <div role="dialog" aria-labelledby="picker-title" className="bg-white rounded-3xl shadow-xl border border-gray-200 flex flex-col animate-fadeIn absolute inset-0 z-10 overflow-hidden">
                 <div className="flex justify-between items-center p-4 border-b border-gray-100 bg-gray-50 flex-shrink-0">
-                   <div>
-                     <h3 className="text-lg font-extrabold text-gray-800">
+                   <div className="flex items-center gap-4 flex-1 min-w-0">
+                     <h3 id="picker-title" className="text-lg font-extrabold text-gray-800 shrink-0">
                         {customizingWord ? 'Select Form' : (activeSlotId ? 'Change Word' : 'Add Word')}
                      </h3>
+                     {!customizingWord && pickerSuggestions.length === 0 && (
+                        <input
+                            autoFocus
+                            value={pickerFilter}
+                            onChange={(e) => setPickerFilter(e.target.value)}
+                            onKeyDown={handlePickerFilterKeyDown}
+                            placeholder="Type to filter…"
+                            aria-label="Filter words. Enter picks the first match."
+                            aria-controls="picker-words"
+                            className="flex-1 max-w-xs bg-white border border-gray-200 rounded-lg px-3 py-1.5 text-sm font-semibold text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                        />
+                     )}
                    </div>
                    <button 
-                     onClick={() => { setActiveSlotId(null); setIsAddingNew(false); setCustomizingWord(null); }} 
+                     onClick={closePicker} 
+                     aria-label="Close picker"
                      className="text-gray-300 hover:text-gray-500 transition"
                    >
                      <XCircleIcon className="w-8 h-8" />
                    </button>
                 </div>
+
+                {/* Elided slot: choose which of its words to change, or take one out */}
+                {activeParts.length > 1 && (
+                    <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-100 bg-white flex-shrink-0 text-sm">
+                        <span className="font-bold text-gray-400 uppercase tracking-wider text-xs">Change</span>
+                        {activeParts.map((part, i) => (
+                            <button
+                                key={part.id}
+                                onClick={() => handleSelectPart(i, part)}
+                                aria-pressed={activePart === i}
+                                className={`px-3 py-1 rounded-full font-bold transition ${activePart === i ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                            >
+                                {part.value?.text}
+                            </button>
+                        ))}
+                        {canEditSlots(state) && (
+                            <button
+                                onClick={() => handleRemovePart(activePart)}
+                                className="ml-auto flex items-center gap-1 text-xs font-bold text-gray-400 hover:text-red-500 transition"
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                                Remove "{activeParts[activePart]?.value?.text}"
+                            </button>
+                        )}
+                    </div>
+                )}
                 
                 {/* --- CUSTOMIZER VIEW (Verbs or Nouns/Adjectives) --- */}
                 {customizingWord ? (
@@ -688,15 +1212,15 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
                             {verbForms && (
                                 <div className="mb-6">
                                     {/* Conjugation Grid */}
-                                    <h4 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-3">Conjugations (Présent)</h4>
+                                    <h4 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-3">Conjugations ({getConjugationTense(settings.tense)}){isPreConjugated && ' · matched to your subject'}</h4>
                                     <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-6">
                                         {verbForms.conjugations.map((conj) => (
                                             <button
-                                                key={conj.text}
+                                                key={conj.id}
                                                 onClick={() => commitWordSelection(conj)}
                                                 className="bg-gray-50 hover:bg-indigo-50 border border-gray-200 hover:border-indigo-300 p-3 rounded-lg text-center transition-all duration-200"
                                             >
-                                                <span className="block text-xs text-gray-400 font-bold mb-1">{conj.tags?.[0] || '-'}</span>
+                                                <span className="block text-xs text-gray-400 font-bold mb-1">{conj.tags?.join('/') || '-'}</span>
                                                 <span className="block font-bold text-gray-800">{conj.text}</span>
                                             </button>
                                         ))}
@@ -788,7 +1312,8 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
                         {visibleCategories.map(cat => (
                             <button
                                 key={cat}
-                                onClick={() => setPickerCategory(cat)}
+                                onClick={() => { setPickerCategory(cat); setPickerSuggestions([]); setPickerFilter(''); }}
+                                aria-pressed={pickerCategory === cat}
                                 className={`w-full text-left px-3 py-2 text-xs md:text-sm font-bold border-l-4 transition-all duration-200
                                 ${pickerCategory === cat 
                                     ? 'bg-white border-indigo-500 text-indigo-600 shadow-sm' 
@@ -802,11 +1327,20 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
 
                     {/* Words Grid */}
                     <div className="flex-1 overflow-y-auto p-4 bg-white">
-                        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-3">
-                        {sortedWords.map(word => (
+                        {pickerSuggestions.length > 0 && (
+                            <div className="mb-4 flex items-center justify-between gap-3 bg-red-50 border-l-4 border-red-400 text-red-700 px-4 py-2 rounded-lg text-sm font-semibold">
+                                <span>Suggested fix: {slotErrors.get(slots.findIndex(s => s.id === activeSlotId))?.message || 'try this instead.'}</span>
+                                <button onClick={() => setPickerSuggestions([])} className="text-red-400 hover:text-red-600 underline shrink-0">
+                                    Show all words
+                                </button>
+                            </div>
+                        )}
+                        <div ref={pickerGridRef} id="picker-words" className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-3">
+                        {pickerWords.map(word => (
                             <button
                             key={word.id}
-                            onClick={() => handleInitialWordSelect(word)}
+                            // Suggestions are already inflected, so they go straight into the slot
+                            onClick={() => pickWord(word)}
                             className="bg-gray-50 hover:bg-indigo-50 text-gray-800 border-2 border-transparent hover:border-indigo-300 p-3 text-center transition-all duration-200 flex flex-col items-center justify-center group hover:shadow-md min-h-[80px] clip-hex-btn"
                             >
                                 <div className="flex items-center gap-1">
@@ -823,9 +1357,9 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
                                 <AdjustmentsHorizontalIcon className="w-4 h-4 text-gray-300 mt-2 opacity-0 group-hover:opacity-100 transition-opacity" />
                             </button>
                         ))}
-                        {sortedWords.length === 0 && (
+                        {pickerWords.length === 0 && (
                             <div className="col-span-full flex items-center justify-center text-gray-400 py-12 italic">
-                            No words available in this category.
+                            {pickerFilter ? `No words matching "${pickerFilter}".` : 'No words available in this category.'}
                             </div>
                         )}
                         </div>
@@ -836,49 +1370,75 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
           )}
 
           {/* Validation Result View */}
-          {validation && (
-             <div className={`absolute inset-0 z-20 rounded-3xl shadow-2xl border-4 p-8 flex flex-col animate-fadeIn bg-white ${validation.isValid ? 'border-green-400' : 'border-red-400'}`}>
+          {resultCard && (streamedVerdict || !activeSlotId) && (
+             <div className={`absolute inset-0 z-20 rounded-3xl shadow-2xl border-4 p-8 flex flex-col animate-fadeIn bg-white ${resultCard.isValid ? 'border-green-400' : 'border-red-400'}`}>
                 <div className="flex-1 overflow-y-auto">
                     <div className="flex items-start gap-6 mb-6">
-                        <div className={`p-4 rounded-full ${validation.isValid ? 'bg-green-100' : 'bg-red-100'}`}>
-                            {validation.isValid 
+                        <div className={`p-4 rounded-full ${resultCard.isValid ? 'bg-green-100' : 'bg-red-100'}`}>
+                            {resultCard.isValid 
                                 ? <CheckCircleIcon className="w-10 h-10 text-green-600" /> 
                                 : <XCircleIcon className="w-10 h-10 text-red-600" />
                             }
                         </div>
                         <div className="flex-1">
-                            <h3 className={`text-2xl font-black mb-2 ${validation.isValid ? 'text-green-800' : 'text-red-800'}`}>
-                                {validation.isValid ? (activeChallenge ? "Challenge Complete!" : "Magnifique!") : "Oups"}
+                            <h3 className={`text-2xl font-black mb-2 ${resultCard.isValid ? 'text-green-800' : 'text-red-800'}`}>
+                                {resultCard.isValid ? (activeChallenge ? "Challenge Complete!" : "Magnifique!") : "Oups"}
+                                {resultCard.feedbackType && resultCard.feedbackType !== 'perfect' && (
+                                    <span className="ml-3 align-middle text-xs font-bold uppercase tracking-wider text-gray-400">{FEEDBACK_LABELS[resultCard.feedbackType]}</span>
+                                )}
                             </h3>
                             <p className="text-gray-700 text-lg leading-relaxed">
-                                {validation.explanation}
+                                {resultCard.explanation}
+                                {streamedVerdict && !streamedVerdict.translation && <StreamCaret />}
                             </p>
+                            {resultCard.errors && resultCard.errors.length > 0 && (
+                                <div className="flex flex-wrap gap-2 mt-3">
+                                    {resultCard.errors.map((error, i) => (
+                                        <span key={i} className="text-xs font-bold uppercase tracking-wider bg-red-50 text-red-600 border border-red-200 px-2 py-1 rounded-full" title={error.message}>
+                                            {error.category.replace('_', ' ')}{error.expected && <span className="normal-case font-semibold"> → {error.expected}</span>}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            {slotErrors.size > 0 && (
+                                <p className="text-sm text-gray-400 mt-2">Click a red block to fix it.</p>
+                            )}
                         </div>
                     </div>
 
                     <div className="bg-gray-50 rounded-xl p-6 border border-gray-100 mb-6">
                         <div className="flex flex-col gap-1">
                             <span className="text-xs font-bold text-gray-400 uppercase tracking-widest">Meaning</span>
-                            <p className="text-xl text-gray-800 font-serif italic">"{validation.translation}"</p>
+                            {resultCard.translation ? (
+                                <p className="text-xl text-gray-800 font-serif italic">"{resultCard.translation}"{streamedVerdict && !streamedVerdict.followUpQuestion && !streamedVerdict.correction && <StreamCaret />}</p>
+                            ) : (
+                                <div className="h-7 w-2/3 rounded bg-gray-200 animate-pulse" />
+                            )}
                         </div>
                         
-                        {!validation.isValid && validation.correction !== slots.map(s => s.value?.text).join(' ') && (
+                        {!resultCard.isValid && resultCard.correction && resultCard.correction !== slots.map(s => s.value?.text).join(' ') && (
                             <div className="mt-4 pt-4 border-t border-gray-200">
                                 <span className="text-xs font-bold text-red-400 uppercase tracking-widest">Correction</span>
-                                <p className="text-lg text-red-700 font-bold">{validation.correction}</p>
+                                <p className="text-lg text-red-700 font-bold flex items-center gap-1">
+                                    {resultCard.correction}
+                                    {!streamedVerdict && <SpeakButton text={resultCard.correction} rate={speechRate} />}
+                                </p>
                             </div>
                         )}
                     </div>
                     
                     {/* Challenge Offer Section */}
-                    {validation.isValid && pendingChallenge && (
+                    {resultCard.isValid && offeredChallenge && !duelTurn && (
                         <div className="bg-gradient-to-br from-gray-900 to-gray-800 rounded-xl p-6 text-white shadow-lg relative overflow-hidden border border-gray-700">
                              <div className="relative z-10">
                                 <h4 className="flex items-center gap-2 text-yellow-400 font-black uppercase tracking-widest text-sm mb-2">
                                     <FireIcon className="w-5 h-5" />
                                     Bonus Challenge (+20 pts)
                                 </h4>
-                                <p className="text-xl font-serif italic mb-2">"{pendingChallenge}"</p>
+                                <p className="text-xl font-serif italic mb-2 flex items-center gap-1">
+                                    <span>"{offeredChallenge}"{streamedVerdict && <StreamCaret />}</span>
+                                    {!streamedVerdict && <SpeakButton text={offeredChallenge} rate={speechRate} tone="dark" />}
+                                </p>
                                 <p className="text-gray-400 text-sm">Accept to reply to this question in the next round.</p>
                              </div>
                              <div className="absolute -right-10 -bottom-10 w-40 h-40 bg-orange-500 opacity-10 rounded-full blur-2xl"></div>
@@ -891,6 +1451,9 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
 
       </main>
 
+      {/* Screen reader announcements (merges, moves, verdicts) */}
+      <div aria-live="polite" role="status" className="sr-only">{announcement}</div>
+
       {/* Footer Controls */}
       <div className="bg-white/90 backdrop-blur-md border-t border-gray-200 p-4 sticky bottom-0 z-30 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)]">
          <div className="max-w-5xl mx-auto flex justify-center w-full">
@@ -917,7 +1480,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
             ) : (
                 // Footer buttons when validation is showing
                 <div className="flex gap-4 w-full max-w-md">
-                     {validation.isValid && pendingChallenge && (
+                     {validation.isValid && pendingChallenge && !duelTurn && (
                          <button
                             onClick={handleAcceptChallenge}
                             className="flex-1 py-4 clip-hex-btn font-bold text-lg shadow-lg bg-gradient-to-r from-orange-500 to-red-600 text-white hover:shadow-xl hover:-translate-y-1 transition-all duration-300 flex items-center justify-center gap-2"
@@ -930,11 +1493,11 @@ export const GameScreen: React.FC<GameScreenProps> = ({ settings, onExit }) => {
                      <button 
                         onClick={handleNext}
                         className={`flex-1 py-4 clip-hex-btn font-bold text-lg shadow-lg hover:-translate-y-1 hover:shadow-xl transition-all duration-300 flex items-center justify-center gap-2
-                        ${validation.isValid && pendingChallenge ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-gray-900 text-white hover:bg-black'}
+                        ${validation.isValid && pendingChallenge && !duelTurn ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-gray-900 text-white hover:bg-black'}
                         `}
                     >
-                        <span>{validation.isValid && pendingChallenge ? "Decline" : "Next Sentence"}</span>
-                        {!pendingChallenge && <span className="text-gray-400 text-sm font-normal">(Enter)</span>}
+                        <span>{duelTurn ? "End Turn" : validation.isValid && pendingChallenge ? "Decline" : "Next Sentence"}</span>
+                        {(!pendingChallenge || duelTurn) && <span className="text-gray-400 text-sm font-normal">(Enter)</span>}
                     </button>
                 </div>
             )}
@@ -1,9 +1,17 @@
 import React from 'react';
-import { Difficulty, GameMode, GameSettings, Tense, Topic } from '../types';
-import { TrophyIcon, BoltIcon, SparklesIcon } from '@heroicons/react/24/solid';
+import { Difficulty, DuelSetup, GameMode, GameSettings, LessonPack, Tense, Topic } from '../types';
+import { TrophyIcon, BoltIcon, SparklesIcon, ChartBarIcon, ArrowPathIcon, Cog6ToothIcon, UsersIcon } from '@heroicons/react/24/solid';
+import { getDueCards } from '../services/srsService';
+import { LessonPackPanel } from './LessonPackPanel';
+import { AiSettings } from './AiSettings';
+import { DuelDraft, DuelSetupPanel } from './DuelSetupPanel';
+import { defaultDuelServerUrl } from '../services/duelClient';
+import { MIN_DUEL_PLAYERS } from '../services/duelMachine';
+import { findCachedPack, getPinnedPack } from '../services/lessonPackService';
 
 interface GameSetupProps {
   onStart: (settings: GameSettings) => void;
+  onShowHistory: () => void;
 }
 
 const SelectionCard = ({ 
@@ -41,23 +49,68 @@ const SelectionCard = ({
   </div>
 );
 
-export const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
+// A pack may be written for specific tenses only: keep the chosen tense if the pack allows it, else take its first
+const clampTenseToPack = (tense: Tense, pack: LessonPack | null): Tense =>
+  pack?.tenses && !pack.tenses.includes(tense) ? pack.tenses[0] : tense;
+
+export const GameSetup: React.FC<GameSetupProps> = ({ onStart, onShowHistory }) => {
   const [mode, setMode] = React.useState<GameMode>(GameMode.STANDARD);
   const [topic, setTopic] = React.useState<Topic>(Topic.DAILY_LIFE);
   const [customTopic, setCustomTopic] = React.useState('');
-  const [tense, setTense] = React.useState<Tense>(Tense.PRESENT);
+  // The class pack (if a teacher pinned one) is preselected so every student gets the same words
+  const [pack, setPack] = React.useState<LessonPack | null>(() => getPinnedPack());
+  const [tense, setTense] = React.useState<Tense>(() => clampTenseToPack(Tense.PRESENT, pack));
   const [difficulty, setDifficulty] = React.useState<Difficulty>(Difficulty.BEGINNER);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = React.useState(false);
+  const [duelDraft, setDuelDraft] = React.useState<DuelDraft>(() => ({
+    isNetwork: false,
+    players: ['', ''],
+    serverUrl: defaultDuelServerUrl(),
+    room: '',
+  }));
+
+  const tenseOptions = pack?.tenses || Object.values(Tense);
+
+  const handleSelectPack = (selected: LessonPack | null) => {
+    setPack(selected);
+    setTense(clampTenseToPack(tense, selected));
+  };
+
+  const handleSelectTopic = (selected: Topic) => {
+    setTopic(selected);
+    setPack(null);
+  };
+
+  // Names left blank on a shared device are dropped
+  const duelPlayers = duelDraft.players.map(p => p.trim()).filter(Boolean);
+  const duelSetup: DuelSetup = duelDraft.isNetwork
+    ? { players: duelPlayers.slice(0, 1), serverUrl: duelDraft.serverUrl.trim(), room: duelDraft.room.trim() }
+    : { players: duelPlayers };
+  const isDuelReady = duelDraft.isNetwork
+    ? !!duelDraft.players[0].trim() && !!duelSetup.serverUrl && !!duelSetup.room
+    : duelPlayers.length >= MIN_DUEL_PLAYERS;
 
   const handleStartGame = () => {
+    const duel = mode === GameMode.DUEL ? duelSetup : undefined;
+    if (pack) {
+      // Lesson packs play as a custom topic whose words come from the pack instead of the AI
+      onStart({ mode, topic: Topic.CUSTOM, customTopic: pack.title, packId: pack.id, tense, difficulty, duel });
+      return;
+    }
     onStart({ 
         mode, 
         topic, 
         customTopic: topic === Topic.CUSTOM ? customTopic : undefined,
         tense, 
-        difficulty 
+        difficulty,
+        duel
     });
   };
 
+  const isStartDisabled = (!pack && topic === Topic.CUSTOM && !customTopic.trim()) || (mode === GameMode.DUEL && !isDuelReady);
+
+  const dueReviews = React.useMemo(() => getDueCards().length, []);
+
   const modeDetails = [
     {
       id: GameMode.STANDARD,
@@ -79,6 +132,20 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
       description: 'Endless practice, no pressure, no timers. Click finish whenever you\'re ready.',
       icon: SparklesIcon,
       color: 'text-purple-500'
+    },
+    {
+      id: GameMode.REVIEW,
+      label: 'Review',
+      description: `Rebuild sentences you got wrong, spaced out so they stick. ${dueReviews} due now.`,
+      icon: ArrowPathIcon,
+      color: 'text-indigo-500'
+    },
+    {
+      id: GameMode.DUEL,
+      label: 'Duel',
+      description: '2 to 4 players answer the same prompts, on this device or over your local network.',
+      icon: UsersIcon,
+      color: 'text-green-500'
     }
   ];
 
@@ -110,7 +177,7 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
                 <span className="w-2 h-2 bg-honey-400 rotate-45"></span>
                 Game Mode
             </h3>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
                 {modeDetails.map((m) => (
                     <button
                         key={m.id}
@@ -136,14 +203,18 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
             </div>
           </div>
           
+          {mode === GameMode.DUEL && <DuelSetupPanel draft={duelDraft} onChange={setDuelDraft} />}
+
           <SelectionCard 
             label="Topic" 
             options={Object.values(Topic)} 
-            selected={topic} 
-            onSelect={setTopic} 
+            selected={pack ? '' : topic} 
+            onSelect={handleSelectTopic} 
           />
 
-          {topic === Topic.CUSTOM && (
+          <LessonPackPanel selectedPackId={pack?.id || null} onSelect={handleSelectPack} />
+
+          {topic === Topic.CUSTOM && !pack && (
              <div className="mb-6 animate-fadeIn">
                 <label className="text-gray-700 font-bold mb-2 uppercase text-sm tracking-wider flex items-center gap-2">
                     <span className="w-2 h-2 bg-honey-400 rotate-45"></span>
@@ -158,13 +229,16 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
                         className="w-full bg-indigo-600 border-2 border-indigo-600 rounded-xl p-4 text-lg font-bold text-white placeholder-indigo-300 focus:outline-none focus:ring-4 focus:ring-indigo-300 transition clip-hex-btn"
                     />
                 </div>
+                {customTopic.trim() && findCachedPack(customTopic) && (
+                    <p className="mt-2 text-sm font-semibold text-indigo-500">Saved pack found: you'll get the same words as last time.</p>
+                )}
              </div>
           )}
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <SelectionCard 
                 label="Target Tense" 
-                options={Object.values(Tense)} 
+                options={tenseOptions} 
                 selected={tense} 
                 onSelect={setTense} 
             />
@@ -177,22 +251,39 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart }) => {
             />
           </div>
 
-          <div className="mt-12 flex justify-center">
+          <div className="mt-12 flex flex-col items-center gap-4">
             <button
               onClick={handleStartGame}
-              disabled={topic === Topic.CUSTOM && !customTopic.trim()}
+              disabled={isStartDisabled}
               className={`
                 text-lg font-bold py-4 px-16 clip-hex-btn shadow-lg transition-all duration-300 transform
-                ${topic === Topic.CUSTOM && !customTopic.trim() 
+                ${isStartDisabled 
                     ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                     : 'bg-gradient-to-r from-french-red to-red-600 text-white hover:shadow-xl hover:-translate-y-1 hover:scale-105'}
               `}
             >
               ENTER THE HIVE
             </button>
+            <div className="flex items-center gap-8">
+              <button
+                onClick={onShowHistory}
+                className="flex items-center gap-2 text-sm font-bold text-gray-400 hover:text-french-blue transition uppercase tracking-wider"
+              >
+                <ChartBarIcon className="w-5 h-5" />
+                My Progress
+              </button>
+              <button
+                onClick={() => setIsAiSettingsOpen(true)}
+                className="flex items-center gap-2 text-sm font-bold text-gray-400 hover:text-french-blue transition uppercase tracking-wider"
+              >
+                <Cog6ToothIcon className="w-5 h-5" />
+                AI Settings
+              </button>
+            </div>
           </div>
         </div>
       </div>
+      {isAiSettingsOpen && <AiSettings onClose={() => setIsAiSettingsOpen(false)} />}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { ERROR_CATEGORIES, GameMode, PlayerProfile, SessionRecord, Topic } from '../types';
+import { loadProfile, clearProfile, getBestScores, getWeeklyAccuracy, getSessionAccuracy, getErrorCounts } from '../services/profileService';
+import { ArrowLeftIcon, TrophyIcon, BoltIcon, SparklesIcon, ChartBarIcon, CheckCircleIcon, XCircleIcon, TrashIcon, ArrowPathIcon } from '@heroicons/react/24/solid';
+
+interface HistoryScreenProps {
+  onBack: () => void;
+}
+
+const modeIcons: Partial<Record<GameMode, { icon: typeof TrophyIcon; color: string }>> = {
+  [GameMode.STANDARD]: { icon: TrophyIcon, color: 'text-yellow-500' },
+  [GameMode.BLITZ]: { icon: BoltIcon, color: 'text-red-500' },
+  [GameMode.ZEN]: { icon: SparklesIcon, color: 'text-purple-500' },
+  [GameMode.REVIEW]: { icon: ArrowPathIcon, color: 'text-indigo-500' },
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+const SessionRow: React.FC<{ session: SessionRecord }> = ({ session }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const accuracy = Math.round(getSessionAccuracy(session) * 100);
+  const topicLabel = session.settings.topic === Topic.CUSTOM ? session.settings.customTopic : session.settings.topic;
+
+  return (
+    <div className="bg-white border border-gray-100 rounded-xl shadow-sm overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between gap-4 p-4 text-left hover:bg-honey-100/40 transition"
+      >
+        <div className="flex flex-col">
+          <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+            {formatDate(session.startedAt)} · {session.settings.mode} · {session.settings.difficulty}
+          </span>
+          <span className="font-bold text-gray-800">{topicLabel} <span className="text-gray-400 font-semibold">({session.settings.tense})</span></span>
+        </div>
+        <div className="flex items-center gap-4 shrink-0">
+          <span className="text-sm font-bold text-gray-500">{accuracy}% · {session.sentences.length} sent.</span>
+          <span className="bg-gradient-to-r from-honey-400 to-honey-500 text-white px-3 py-1 font-bold shadow-md clip-hex-btn">{session.score} pts</span>
+        </div>
+      </button>
+
+      {isOpen && (
+        <ul className="border-t border-gray-100 divide-y divide-gray-100 bg-gray-50">
+          {session.sentences.map((s, i) => (
+            <li key={i} className="p-3 flex items-start gap-3">
+              {s.result.isValid
+                ? <CheckCircleIcon className="w-5 h-5 text-green-500 shrink-0 mt-0.5" />
+                : <XCircleIcon className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />}
+              <div className="flex-1">
+                <p className="font-bold text-gray-800">{s.sentence}</p>
+                {!s.result.isValid && s.result.correction !== s.sentence && (
+                  <p className="text-sm text-red-700 font-semibold">→ {s.result.correction}</p>
+                )}
+                <p className="text-xs text-gray-500">{s.result.explanation}</p>
+              </div>
+              {s.points > 0 && <span className="text-xs font-bold text-honey-500 shrink-0">+{s.points}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const HistoryScreen: React.FC<HistoryScreenProps> = ({ onBack }) => {
+  const [profile, setProfile] = useState<PlayerProfile>(() => loadProfile());
+
+  const bestScores = getBestScores(profile);
+  const weekly = getWeeklyAccuracy(profile);
+  const errorCounts = getErrorCounts(profile);
+  const maxErrors = Math.max(1, ...Object.values(errorCounts));
+  const sessions = [...profile.sessions].sort((a, b) => b.startedAt - a.startedAt);
+
+  const handleClear = () => {
+    if (!window.confirm('Delete your whole history? This cannot be undone.')) return;
+    clearProfile();
+    setProfile(loadProfile());
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-honeycomb bg-fixed">
+      <div className="max-w-4xl w-full bg-white/95 backdrop-blur-sm rounded-3xl shadow-2xl p-8 md:p-12 relative border-t-8 border-honey-400">
+        <header className="mb-8 flex items-center justify-between">
+          <button onClick={onBack} className="flex items-center gap-2 text-gray-400 hover:text-gray-700 transition font-bold">
+            <ArrowLeftIcon className="w-5 h-5" />
+            Menu
+          </button>
+          <h1 className="text-3xl font-black text-gray-900 tracking-tight">
+            My <span className="text-french-blue">Progress</span>
+          </h1>
+          <button
+            onClick={handleClear}
+            disabled={sessions.length === 0}
+            className="text-gray-300 hover:text-french-red transition disabled:opacity-0"
+            title="Clear history"
+          >
+            <TrashIcon className="w-5 h-5" />
+          </button>
+        </header>
+
+        {/* Best Scores */}
+        <h3 className="text-gray-700 font-bold mb-3 uppercase text-sm tracking-wider flex items-center gap-2">
+          <span className="w-2 h-2 bg-honey-400 rotate-45"></span>
+          Best Scores
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+          {Object.values(GameMode).map(mode => {
+            const meta = modeIcons[mode];
+            const Icon = meta?.icon || TrophyIcon;
+            return (
+              <div key={mode} className="p-5 clip-hex-btn border-b-4 border-gray-200 bg-white shadow-sm flex items-center justify-between">
+                <div>
+                  <span className="block text-xs font-bold text-gray-400 uppercase tracking-wider">{mode}</span>
+                  <span className="text-3xl font-black text-french-blue">{bestScores[mode] ?? '—'}</span>
+                </div>
+                <Icon className={`w-8 h-8 ${meta?.color || 'text-gray-400'}`} />
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Accuracy Trend */}
+        <h3 className="text-gray-700 font-bold mb-3 uppercase text-sm tracking-wider flex items-center gap-2">
+          <span className="w-2 h-2 bg-honey-400 rotate-45"></span>
+          Weekly Accuracy
+        </h3>
+        <div className="mb-8 bg-gray-50 rounded-xl p-6 border border-gray-100">
+          {weekly.length === 0 ? (
+            <p className="text-gray-400 italic text-center flex items-center justify-center gap-2">
+              <ChartBarIcon className="w-5 h-5" />
+              Play a few rounds to see your trend.
+            </p>
+          ) : (
+            <div className="flex items-end gap-3 h-40">
+              {weekly.map(week => (
+                <div key={week.weekStart} className="flex-1 flex flex-col items-center justify-end h-full" title={`${week.sentences} sentences`}>
+                  <span className="text-xs font-bold text-gray-500 mb-1">{Math.round(week.accuracy * 100)}%</span>
+                  <div
+                    className="w-full bg-gradient-to-t from-french-blue to-indigo-400 rounded-t-md transition-all duration-500"
+                    style={{ height: `${Math.max(4, week.accuracy * 100)}%` }}
+                  ></div>
+                  <span className="text-[10px] font-bold text-gray-400 mt-1 whitespace-nowrap">
+                    {new Date(week.weekStart).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Mistakes per category */}
+        <h3 className="text-gray-700 font-bold mb-3 uppercase text-sm tracking-wider flex items-center gap-2">
+          <span className="w-2 h-2 bg-honey-400 rotate-45"></span>
+          Common Mistakes
+        </h3>
+        <div className="mb-8 grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+          {ERROR_CATEGORIES.map(category => (
+            <div key={category} className="flex items-center gap-3">
+              <span className="w-28 text-xs font-bold text-gray-500 uppercase tracking-wider">{category.replace('_', ' ')}</span>
+              <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-french-red rounded-full" style={{ width: `${(errorCounts[category] / maxErrors) * 100}%` }}></div>
+              </div>
+              <span className="w-8 text-right text-sm font-bold text-gray-700">{errorCounts[category]}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Sessions */}
+        <h3 className="text-gray-700 font-bold mb-3 uppercase text-sm tracking-wider flex items-center gap-2">
+          <span className="w-2 h-2 bg-honey-400 rotate-45"></span>
+          Past Sessions
+        </h3>
+        <div className="flex flex-col gap-3">
+          {sessions.map(session => <SessionRow key={session.id} session={session} />)}
+          {sessions.length === 0 && (
+            <p className="text-gray-400 italic text-center py-8">No sessions yet. Enter the hive!</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
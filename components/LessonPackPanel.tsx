@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { LessonPack } from '../types';
+import { deletePack, exportLessonPack, loadPacks, parseLessonPack, pinPack, savePack, updatePack } from '../services/lessonPackService';
+import { PackEditor } from './PackEditor';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, BookmarkIcon, BookOpenIcon, PencilSquareIcon, SparklesIcon, TrashIcon, XCircleIcon } from '@heroicons/react/24/solid';
+
+interface LessonPackPanelProps {
+  selectedPackId: string | null;
+  onSelect: (pack: LessonPack | null) => void;
+}
+
+// Downloads the pack as a .json file so it can be shared with students or other teachers
+const downloadPack = (pack: LessonPack) => {
+  const blob = new Blob([exportLessonPack(pack)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${pack.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'lesson-pack'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const LessonPackPanel: React.FC<LessonPackPanelProps> = ({ selectedPackId, onSelect }) => {
+  const [packs, setPacks] = useState<LessonPack[]>(() => loadPacks());
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [editingPack, setEditingPack] = useState<LessonPack | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Class pack first, then the most recently used
+  const sortedPacks = [...packs].sort((a, b) =>
+    Number(!!b.pinned) - Number(!!a.pinned) || (b.lastUsedAt || 0) - (a.lastUsedAt || 0)
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file after fixing it
+    if (!file) return;
+
+    const { pack, errors } = parseLessonPack(await file.text(), file.name);
+    if (!pack) {
+      setImportErrors(errors);
+      return;
+    }
+    savePack(pack);
+    if (pack.pinned) pinPack(pack.id); // A class pack file replaces this device's class pack
+    setPacks(loadPacks());
+    setImportErrors([]);
+    onSelect(pack);
+  };
+
+  const handleDelete = (pack: LessonPack) => {
+    if (!window.confirm(`Remove the lesson pack "${pack.title}"?`)) return;
+    deletePack(pack.id);
+    setPacks(loadPacks());
+    if (selectedPackId === pack.id) onSelect(null);
+  };
+
+  // Pinning makes the pack the class default; it is selected right away
+  const handleTogglePin = (pack: LessonPack) => {
+    pinPack(pack.pinned ? null : pack.id);
+    setPacks(loadPacks());
+    if (!pack.pinned) onSelect({ ...pack, pinned: true });
+  };
+
+  const handleSaveEdit = (edited: LessonPack) => {
+    updatePack(edited.id, { title: edited.title, words: edited.words });
+    setPacks(loadPacks());
+    setEditingPack(null);
+    if (selectedPackId === edited.id) onSelect(edited);
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-gray-700 font-bold mb-3 uppercase text-sm tracking-wider flex items-center gap-2">
+        <span className="w-2 h-2 bg-honey-400 rotate-45"></span>
+        Word Packs
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {sortedPacks.map(pack => (
+          <div
+            key={pack.id}
+            className={`clip-hex-btn border-b-4 flex items-center gap-2 transition-all duration-200
+              ${selectedPackId === pack.id
+                ? 'bg-indigo-600 border-indigo-800 text-white shadow-lg translate-y-[-2px]'
+                : 'bg-white border-gray-200 text-gray-600 hover:border-honey-400 hover:bg-honey-100'}
+            `}
+          >
+            <button onClick={() => onSelect(pack)} className="flex-1 flex items-center gap-2 p-3 text-left min-w-0">
+              {pack.source === 'ai'
+                ? <SparklesIcon className="w-5 h-5 shrink-0" title="Generated by AI" />
+                : <BookOpenIcon className="w-5 h-5 shrink-0" />}
+              <span className="flex flex-col min-w-0">
+                <span className="text-sm font-bold truncate">{pack.title}</span>
+                <span className={`text-xs font-semibold truncate ${selectedPackId === pack.id ? 'text-indigo-200' : 'text-gray-400'}`}>
+                  {pack.pinned && 'Class pack · '}{pack.words.length} words{pack.author && ` · ${pack.author}`}
+                </span>
+              </span>
+            </button>
+            <button
+              onClick={() => handleTogglePin(pack)}
+              className={`p-2 transition ${pack.pinned ? 'opacity-100 text-honey-400' : 'opacity-60 hover:opacity-100'}`}
+              title={pack.pinned ? 'Unpin class pack' : 'Pin as class pack'}
+            >
+              <BookmarkIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => setEditingPack(pack)} className="p-2 opacity-60 hover:opacity-100 transition" title="Rename or edit words">
+              <PencilSquareIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => downloadPack(pack)} className="p-2 opacity-60 hover:opacity-100 transition" title={pack.pinned ? 'Export as class pack' : 'Export pack'}>
+              <ArrowDownTrayIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleDelete(pack)} className="p-2 mr-2 opacity-60 hover:opacity-100 hover:text-french-red transition" title="Remove pack">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="clip-hex-btn p-3 text-sm font-bold border-2 border-dashed border-gray-300 text-gray-400 hover:border-indigo-400 hover:text-indigo-500 transition flex items-center justify-center gap-2"
+        >
+          <ArrowUpTrayIcon className="w-5 h-5" />
+          Import Pack (.json, .yaml)
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,.yaml,.yml,application/json" onChange={handleFile} className="hidden" />
+      </div>
+
+      {importErrors.length > 0 && (
+        <div className="mt-3 bg-red-50 border-l-4 border-red-400 rounded-lg p-4 text-sm text-red-700 relative animate-fadeIn">
+          <button onClick={() => setImportErrors([])} className="absolute top-2 right-2 text-red-300 hover:text-red-500">
+            <XCircleIcon className="w-5 h-5" />
+          </button>
+          <p className="font-bold mb-1">This pack couldn't be imported:</p>
+          <ul className="list-disc list-inside space-y-0.5">
+            {importErrors.map((error, i) => <li key={i}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {editingPack && (
+        <PackEditor pack={editingPack} onSave={handleSaveEdit} onCancel={() => setEditingPack(null)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { LessonPack, LessonPackWord, PartOfSpeech } from '../types';
+import { validateLessonPack } from '../services/lessonPackService';
+import { CheckCircleIcon, PlusIcon, TrashIcon, XCircleIcon } from '@heroicons/react/24/solid';
+
+interface PackEditorProps {
+  pack: LessonPack;
+  onSave: (pack: LessonPack) => void;
+  onCancel: () => void;
+}
+
+const inputClasses = "w-full bg-gray-50 border border-gray-200 rounded-lg px-2 py-1.5 text-sm font-semibold text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-300";
+
+export const PackEditor: React.FC<PackEditorProps> = ({ pack, onSave, onCancel }) => {
+  const [title, setTitle] = useState(pack.title);
+  const [words, setWords] = useState<LessonPackWord[]>(pack.words);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateWord = (index: number, changes: Partial<LessonPackWord>) => {
+    setWords(prev => prev.map((w, i) => (i === index ? { ...w, ...changes } : w)));
+  };
+
+  const handleAddWord = () => {
+    setWords(prev => [...prev, { text: '', type: PartOfSpeech.NOUN, translation: '', gender: 'm' }]);
+  };
+
+  // Edits go through the same validator as imported files
+  const handleSave = () => {
+    const { pack: checked, errors: problems } = validateLessonPack({ ...pack, title, words });
+    if (!checked) {
+      setErrors(problems);
+      return;
+    }
+    onSave({ ...pack, title: checked.title, words: checked.words });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fadeIn">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col border-t-8 border-honey-400">
+        <div className="flex items-center justify-between gap-4 p-6 border-b border-gray-100">
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="flex-1 text-2xl font-black text-gray-900 bg-transparent border-b-2 border-transparent hover:border-gray-200 focus:border-indigo-400 focus:outline-none"
+            aria-label="Pack title"
+          />
+          <button onClick={onCancel} className="text-gray-300 hover:text-gray-500 transition">
+            <XCircleIcon className="w-8 h-8" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="grid grid-cols-[1fr_1fr_9rem_6rem_2rem] gap-2 items-center text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
+            <span>French</span>
+            <span>English</span>
+            <span>Type</span>
+            <span>Gender</span>
+            <span></span>
+          </div>
+          {words.map((word, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_9rem_6rem_2rem] gap-2 items-center mb-2">
+              <input value={word.text} onChange={(e) => updateWord(index, { text: e.target.value })} className={inputClasses} />
+              <input value={word.translation} onChange={(e) => updateWord(index, { translation: e.target.value })} className={inputClasses} />
+              <select value={word.type} onChange={(e) => updateWord(index, { type: e.target.value as PartOfSpeech })} className={inputClasses}>
+                {Object.values(PartOfSpeech).map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+              <select
+                value={word.gender || ''}
+                onChange={(e) => updateWord(index, { gender: (e.target.value || undefined) as LessonPackWord['gender'] })}
+                className={inputClasses}
+              >
+                <option value="">—</option>
+                <option value="m">m</option>
+                <option value="f">f</option>
+                <option value="mutable">mutable</option>
+              </select>
+              <button onClick={() => setWords(prev => prev.filter((_, i) => i !== index))} className="text-gray-300 hover:text-french-red transition" title="Remove word">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button onClick={handleAddWord} className="mt-2 flex items-center gap-1 text-sm font-bold text-indigo-500 hover:text-indigo-700 transition">
+            <PlusIcon className="w-4 h-4" />
+            Add word
+          </button>
+
+          {errors.length > 0 && (
+            <ul className="mt-4 bg-red-50 border-l-4 border-red-400 rounded-lg p-4 text-sm text-red-700 list-disc list-inside space-y-0.5">
+              {errors.map((error, i) => <li key={i}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-100 flex justify-end gap-3">
+          <button onClick={onCancel} className="px-6 py-3 font-bold text-gray-400 hover:text-gray-600 transition">Cancel</button>
+          <button onClick={handleSave} className="px-8 py-3 bg-indigo-600 text-white font-bold clip-hex-btn shadow-md hover:bg-indigo-700 transition flex items-center gap-2">
+            <CheckCircleIcon className="w-5 h-5" />
+            Save Pack
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
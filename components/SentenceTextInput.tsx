@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { SentenceSlot } from '../types';
+import { ArrowRightCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/solid';
+
+interface SentenceTextInputProps {
+  initialText: string;
+  unknownSlots: SentenceSlot[]; // Blocks from the last build that matched no word
+  onBuild: (text: string) => void;
+}
+
+// Free text entry for students who'd rather type than pick: the sentence is parsed into blocks on Enter
+export const SentenceTextInput: React.FC<SentenceTextInputProps> = ({ initialText, unknownSlots, onBuild }) => {
+  const [text, setText] = useState(initialText);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (text.trim()) onBuild(text);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto w-full mt-3 px-2">
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <input
+          autoFocus
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Tapez votre phrase… (e.g. Je mange parce que j'ai faim)"
+          aria-label="Type your sentence in French"
+          lang="fr"
+          spellCheck={false}
+          className="flex-1 bg-white border-2 border-gray-200 rounded-xl px-4 py-2 text-lg font-semibold text-gray-800 focus:outline-none focus:border-indigo-400"
+        />
+        <button
+          type="submit"
+          disabled={!text.trim()}
+          className="px-4 py-2 bg-indigo-600 text-white font-bold clip-hex-btn shadow-md hover:bg-indigo-700 transition disabled:opacity-40 flex items-center gap-2"
+        >
+          <ArrowRightCircleIcon className="w-5 h-5" />
+          Build
+        </button>
+      </form>
+      {unknownSlots.length > 0 && (
+        <p role="alert" className="mt-2 text-sm font-semibold text-amber-700 flex items-center gap-2">
+          <ExclamationTriangleIcon className="w-4 h-4 shrink-0" />
+          Not in your words: {unknownSlots.map(s => `"${s.value?.text}"`).join(', ')}. Click a grey block to swap it, or check anyway.
+        </p>
+      )}
+    </div>
+  );
+};
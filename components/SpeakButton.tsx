@@ -0,0 +1,54 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { isFrenchVoiceAvailable, onVoicesChanged, speakFrench, stopSpeaking } from '../services/speechService';
+import { SpeakerWaveIcon, StopIcon } from '@heroicons/react/24/solid';
+
+interface SpeakButtonProps {
+  text: string;
+  rate: number;
+  onWord?: (charIndex: number) => void;
+  onEnd?: () => void;
+  tone?: 'light' | 'dark'; // Background the button sits on
+}
+
+// Plays the text with a French voice; a second click stops it. Disabled where no French voice exists.
+export const SpeakButton: React.FC<SpeakButtonProps> = ({ text, rate, onWord, onEnd, tone = 'light' }) => {
+  const [hasVoice, setHasVoice] = useState(() => isFrenchVoiceAvailable());
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const isSpeakingRef = useRef(false);
+
+  useEffect(() => onVoicesChanged(() => setHasVoice(isFrenchVoiceAvailable())), []);
+
+  // Don't keep talking about a sentence that is no longer on screen
+  useEffect(() => () => { if (isSpeakingRef.current) stopSpeaking(); }, []);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (isSpeaking) {
+      stopSpeaking();
+      return;
+    }
+    const started = speakFrench(text, {
+      rate,
+      onWord,
+      onEnd: () => {
+        isSpeakingRef.current = false;
+        setIsSpeaking(false);
+        onEnd?.();
+      },
+    });
+    isSpeakingRef.current = started;
+    setIsSpeaking(started);
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={!hasVoice || !text}
+      className={`p-2 rounded-full transition disabled:opacity-30 disabled:cursor-not-allowed ${isSpeaking ? 'text-french-blue animate-pulse' : `text-gray-400 ${tone === 'dark' ? 'hover:text-white' : 'hover:text-french-blue'}`}`}
+      title={hasVoice ? (isSpeaking ? 'Stop' : 'Listen') : 'No French voice available on this device'}
+      aria-label={isSpeaking ? 'Stop speaking' : 'Listen in French'}
+    >
+      {isSpeaking ? <StopIcon className="w-5 h-5" /> : <SpeakerWaveIcon className="w-5 h-5" />}
+    </button>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { isSpeechRecognitionSupported, listenFrench } from '../services/speechRecognitionService';
+import { stopSpeaking } from '../services/speechService';
+import { MicrophoneIcon, StopIcon } from '@heroicons/react/24/solid';
+
+interface SpeechInputProps {
+  onTranscript: (transcript: string) => void;
+}
+
+// "Say it" button for the prompt banners. Hidden in browsers without speech recognition.
+export const SpeechInput: React.FC<SpeechInputProps> = ({ onTranscript }) => {
+  const [isListening, setIsListening] = useState(false);
+  const [heard, setHeard] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopRef.current?.(), []);
+
+  if (!isSpeechRecognitionSupported()) return null;
+
+  const handleClick = () => {
+    if (isListening) {
+      stopRef.current?.();
+      return;
+    }
+    stopSpeaking(); // Don't transcribe our own read-aloud
+    setError(null);
+    setHeard('');
+    setIsListening(true);
+    stopRef.current = listenFrench({
+      onInterim: setHeard,
+      onResult: onTranscript,
+      onError: setError,
+      onEnd: () => {
+        stopRef.current = null;
+        setIsListening(false);
+      },
+    });
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <button
+        onClick={handleClick}
+        className={`px-4 py-2 rounded-full text-sm font-bold flex items-center gap-2 transition
+          ${isListening ? 'bg-white text-red-600 animate-pulse' : 'bg-white/20 text-white hover:bg-white/30'}
+        `}
+        title={isListening ? 'Stop listening' : 'Say your answer in French'}
+      >
+        {isListening ? <StopIcon className="w-4 h-4" /> : <MicrophoneIcon className="w-4 h-4" />}
+        {isListening ? 'Listening…' : 'Say it'}
+      </button>
+      {isListening && heard && <span className="text-xs italic opacity-90 max-w-xs truncate">"{heard}"</span>}
+      {error && <span className="text-xs font-semibold text-yellow-100 max-w-xs">{error}</span>}
+    </div>
+  );
+};
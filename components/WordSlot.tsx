@@ -1,17 +1,24 @@
 import React, { useEffect, useState } from 'react';
-import { PartOfSpeech, SentenceSlot } from '../types';
-import { XMarkIcon } from '@heroicons/react/24/solid';
+import { GrammarError, PartOfSpeech, SentenceSlot } from '../types';
+import { ExclamationCircleIcon, XMarkIcon } from '@heroicons/react/24/solid';
 
 interface WordSlotProps {
   slot: SentenceSlot;
   index: number;
   isActive: boolean;
   isMerging?: 'left' | 'right'; // Prop to trigger merge animation
+  error?: GrammarError; // Mistake the judge pinned on this slot (red ring + rule tooltip)
+  isSpeaking?: boolean; // Word currently being read aloud
+  isDragging?: boolean; // Being moved with the pointer
+  isDropTarget?: boolean; // Where the dragged slot will land
+  isSplitTarget?: boolean; // Elided slot the dragged slot will be dropped inside, splitting it
+  isFocusable: boolean; // Roving tabindex: only one slot in the sentence is a tab stop
   onClick: () => void;
   onRemove: (e: React.MouseEvent) => void;
-  onDragStart: (e: React.DragEvent, index: number) => void;
-  onDragOver: (e: React.DragEvent) => void;
-  onDrop: (e: React.DragEvent, index: number) => void;
+  onKeyDown: (e: React.KeyboardEvent, index: number) => void;
+  onPointerDown: (e: React.PointerEvent, index: number) => void;
+  onPointerMove: (e: React.PointerEvent) => void;
+  onPointerUp: (e: React.PointerEvent) => void;
 }
 
 const getSlotColor = (type: PartOfSpeech) => {
@@ -55,11 +62,18 @@ export const WordSlot: React.FC<WordSlotProps> = ({
     index, 
     isActive, 
     isMerging,
+    error,
+    isSpeaking,
+    isDragging,
+    isDropTarget,
+    isSplitTarget,
+    isFocusable,
     onClick, 
     onRemove,
-    onDragStart,
-    onDragOver,
-    onDrop
+    onKeyDown,
+    onPointerDown,
+    onPointerMove,
+    onPointerUp
 }) => {
   const [isNewMerged, setIsNewMerged] = useState(false);
 
@@ -72,9 +86,19 @@ export const WordSlot: React.FC<WordSlotProps> = ({
       }
   }, [slot.id]);
 
-  const baseClasses = "relative h-24 min-w-[70px] md:min-w-[90px] flex flex-col items-center justify-center border-b-4 cursor-grab active:cursor-grabbing transition-all duration-200 select-none shadow-sm hover:-translate-y-1 hover:shadow-md active:translate-y-0 group clip-hex-btn";
-  const colorClasses = slot.value ? getSlotColor(slot.type) : "bg-white border-dashed border-gray-300 text-gray-400 hover:bg-gray-50 hover:border-gray-400";
+  const baseClasses = "relative h-24 min-w-[70px] md:min-w-[90px] flex flex-col items-center justify-center border-b-4 cursor-grab active:cursor-grabbing transition-all duration-200 select-none touch-pan-y shadow-sm hover:-translate-y-1 hover:shadow-md active:translate-y-0 group clip-hex-btn focus:outline-none focus-visible:ring-4 focus-visible:ring-french-blue";
+  const colorClasses = slot.unknown
+    ? "bg-gray-100 border-dashed border-gray-400 text-gray-500"
+    : slot.value ? getSlotColor(slot.type) : "bg-white border-dashed border-gray-300 text-gray-400 hover:bg-gray-50 hover:border-gray-400";
   const activeClasses = isActive ? "ring-4 ring-indigo-200 scale-105 z-10 shadow-xl" : "";
+  const errorClasses = error && !isActive ? "ring-4 ring-red-400 z-10 cursor-pointer" : "";
+  const speakingClasses = isSpeaking ? "ring-4 ring-honey-400 -translate-y-1 shadow-md z-10" : "";
+  const dragClasses = isDragging ? "opacity-40 scale-95" : isSplitTarget ? "" : isDropTarget ? "ring-4 ring-indigo-300 ring-offset-2" : "";
+
+  // Read out by screen readers: position, word, part of speech, and the judge's flag if any
+  const label = slot.value
+    ? `${index + 1}: ${slot.value.text}, ${slot.unknown ? 'unknown word' : getSlotLabel(slot.type)}${error ? `, mistake: ${error.message || error.category.replace('_', ' ')}` : ''}`
+    : `${index + 1}: empty ${getSlotLabel(slot.type)}`;
   
   // Animation States
   const mergeClasses = isMerging 
@@ -113,31 +137,53 @@ export const WordSlot: React.FC<WordSlotProps> = ({
             animation: popIn 0.5s cubic-bezier(0.34, 1.56, 0.64, 1);
         }
     `}</style>
+    <div className="relative flex mx-1 flex-grow md:flex-grow-0">
     <div 
+      role="option"
+      aria-roledescription="word block"
+      aria-selected={isActive}
+      aria-label={label}
+      aria-invalid={error ? true : undefined}
+      tabIndex={isFocusable ? 0 : -1}
+      data-slot-index={index}
       onClick={onClick}
-      draggable={true}
-      onDragStart={(e) => onDragStart(e, index)}
-      onDragOver={onDragOver}
-      onDrop={(e) => onDrop(e, index)}
-      className={`${baseClasses} ${colorClasses} ${activeClasses} ${mergeClasses} ${bornClasses} px-1 mx-1 flex-grow md:flex-grow-0`}
+      onKeyDown={(e) => onKeyDown(e, index)}
+      onPointerDown={(e) => onPointerDown(e, index)}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      className={`${baseClasses} ${colorClasses} ${activeClasses} ${errorClasses} ${speakingClasses} ${dragClasses} ${mergeClasses} ${bornClasses} peer px-1 flex-grow`}
     >
-      {/* Delete Badge */}
+      {/* Delete Badge (keyboard users press Delete on the slot instead) */}
       {!isMerging && (
-        <div 
-            role="button"
+        <button
+            type="button"
+            tabIndex={-1}
+            aria-hidden="true"
             onClick={onRemove}
+            onPointerDown={(e) => e.stopPropagation()} // Not the start of a drag
             className="absolute -top-1 -right-1 bg-gray-200 hover:bg-red-500 hover:text-white text-gray-500 p-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200 shadow-sm z-20 rounded-bl-lg"
             title="Remove word"
         >
             <XMarkIcon className="w-3 h-3" />
-        </div>
+        </button>
+      )}
+
+      {/* Seam where a dropped block will split an elided slot */}
+      {isSplitTarget && (
+        <div className="absolute inset-y-2 left-1/2 -translate-x-1/2 w-1 rounded-full bg-indigo-500 pointer-events-none z-20" />
+      )}
+
+      {/* Error Badge */}
+      {error && !isActive && (
+        <ExclamationCircleIcon className="absolute top-1 left-1/2 -translate-x-1/2 w-4 h-4 text-red-500 pointer-events-none" />
       )}
 
       {slot.value ? (
         <>
-           <span className="text-[9px] uppercase font-bold opacity-60 mb-1 tracking-wider pointer-events-none">{getSlotLabel(slot.type)}</span>
+           <span className="text-[9px] uppercase font-bold opacity-60 mb-1 tracking-wider pointer-events-none">{slot.unknown ? 'Inconnu' : getSlotLabel(slot.type)}</span>
            <span className="text-sm md:text-xl font-bold text-center leading-tight break-all px-1 pointer-events-none">{slot.value.text}</span>
-           <span className="text-[9px] italic opacity-50 mt-1 max-w-full truncate px-1 pointer-events-none">{slot.value.translation}</span>
+           <span className="text-[9px] italic opacity-50 mt-1 max-w-full truncate px-1 pointer-events-none">{slot.unknown ? 'not in your words' : slot.value.translation}</span>
         </>
       ) : (
         <span className="text-[10px] md:text-xs font-bold uppercase tracking-widest text-center pointer-events-none">{getSlotLabel(slot.type)}</span>
@@ -148,6 +194,16 @@ export const WordSlot: React.FC<WordSlotProps> = ({
           <div className="absolute -bottom-1 left-0 right-0 mx-auto w-1/3 h-1 bg-gray-200 pointer-events-none"></div>
       )}
     </div>
+
+    {/* Rule Tooltip (outside the hex clip so it isn't cut off) */}
+    {error && !isActive && (
+      <div aria-hidden="true" className="absolute top-full left-1/2 -translate-x-1/2 mt-2 w-56 bg-gray-900 text-white text-xs rounded-lg shadow-lg p-2 opacity-0 peer-hover:opacity-100 transition-opacity duration-200 pointer-events-none z-30">
+        <span className="block font-bold uppercase tracking-wider text-red-300 mb-0.5">{error.category.replace('_', ' ')}</span>
+        {error.message || 'Something is wrong here.'}
+        {error.expected && <span className="block mt-1 font-bold">→ {error.expected}</span>}
+      </div>
+    )}
+    </div>
     </>
   );
 };
\ No newline at end of file
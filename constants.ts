@@ -1,37 +1,52 @@
-import { Difficulty, PartOfSpeech, SentenceSlot, Tense, Topic, Word } from './types';
+import { Difficulty, DifficultyProfile, GameSettings, PartOfSpeech, SentenceSlot, Tense, Topic, VerbFormOverrides, Word } from './types';
+import { conjugate, conjugateWithOverrides, PERSONS, PERSON_TAGS } from './services/conjugationService';
+import { applyContractions, Contraction, contractPair } from './services/contractionService';
+
+// Word ids only need to be unique within a game; tests install a counter so generated words are reproducible
+export type WordIdGenerator = (text: string, type: PartOfSpeech) => string;
+
+const randomWordId: WordIdGenerator = (text, type) => `${text}-${type}-${Math.random().toString(36).substr(2, 9)}`;
+let generateWordId: WordIdGenerator = randomWordId;
+
+// Pass null to go back to random ids
+export const setWordIdGenerator = (generator: WordIdGenerator | null) => {
+  generateWordId = generator || randomWordId;
+};
 
 // Helper to create words
 export const createWord = (text: string, type: PartOfSpeech, translation: string, tags: string[] = []): Word => ({
-  id: `${text}-${type}-${Math.random().toString(36).substr(2, 9)}`,
+  id: generateWordId(text, type),
   text,
   type,
   translation,
   tags
 });
 
+// Which person forms the verb customizer offers for a target tense.
+// Passé composé and futur proche are built from present-tense auxiliaries, so only the imparfait differs.
+export const getConjugationTense = (tense: Tense): Tense => {
+  return tense === Tense.IMPARFAIT ? Tense.IMPARFAIT : Tense.PRESENT;
+};
+
+// Helper to build the six person forms of any verb from the conjugation engine
+export const generateConjugations = (root: string, translationBase: string, tense: Tense = Tense.PRESENT, overrides?: VerbFormOverrides): Word[] => {
+  const conjugation = conjugateWithOverrides(root, overrides);
+  if (!conjugation) return [];
+
+  const isImparfait = getConjugationTense(tense) === Tense.IMPARFAIT;
+  const forms = isImparfait ? conjugation.imparfait : conjugation.present;
+
+  return PERSONS.map((person, i) => {
+    const tags = PERSON_TAGS[person];
+    const translation = `${isImparfait ? 'used to ' : ''}${translationBase} (${tags.join('/')})`;
+    return createWord(forms[i], PartOfSpeech.VERB, translation, isImparfait ? [...tags, 'imparfait'] : tags);
+  });
+};
+
 // Helper to generate standard -er verb conjugations (Present Tense)
+// Stem changes (acheter, appeler, préférer, nettoyer) and -ger/-cer spellings are handled by the engine
 export const generateErVerbs = (root: string, translationBase: string): Word[] => {
-  const stem = root.slice(0, -2);
-  
-  // Handle special cases for -ger and -cer verbs in the "Nous" form to preserve pronunciation
-  let nousForm = `${stem}ons`;
-  if (root.endsWith('ger')) {
-      nousForm = `${stem}eons`; // manger -> mangeons
-  } else if (root.endsWith('cer')) {
-      nousForm = `${stem.slice(0, -1)}çons`; // commencer -> commençons
-  }
-
-  // Handle -yer verbs (nettoyer -> nettoie) changing y to i in singular and 3rd person plural
-  const isYer = root.endsWith('yer');
-  const singularStem = isYer ? stem.slice(0, -1) + 'i' : stem;
-
-  return [
-    createWord(`${singularStem}e`, PartOfSpeech.VERB, `${translationBase} (Je/Il)`, ['Je', 'Il', 'Elle']),
-    createWord(`${singularStem}es`, PartOfSpeech.VERB, `${translationBase} (Tu)`, ['Tu']),
-    createWord(nousForm, PartOfSpeech.VERB, `${translationBase} (Nous)`, ['Nous']),
-    createWord(`${stem}ez`, PartOfSpeech.VERB, `${translationBase} (Vous)`, ['Vous']),
-    createWord(`${singularStem}ent`, PartOfSpeech.VERB, `${translationBase} (Ils/Elles)`, ['Ils', 'Elles']),
-  ];
+  return generateConjugations(root, translationBase);
 };
 
 // --- Word Categories ---
@@ -228,13 +243,13 @@ export const TOPIC_POOLS: Record<Topic, Word[]> = {
     createWord('train', PartOfSpeech.NOUN, 'train', ['m']),
     createWord('avion', PartOfSpeech.NOUN, 'plane', ['m']),
     createWord('plage', PartOfSpeech.NOUN, 'beach', ['f']),
-    createWord('paris', PartOfSpeech.NOUN, 'Paris', ['m']),
+    createWord('Paris', PartOfSpeech.NOUN, 'Paris', ['m']),
     createWord('hôtel', PartOfSpeech.NOUN, 'hotel', ['m']),
     createWord('monde', PartOfSpeech.NOUN, 'world', ['m']),
     createWord('pays', PartOfSpeech.NOUN, 'country', ['m']),
     
     createWord('beau', PartOfSpeech.ADJECTIVE, 'beautiful'),
-    createWord('loin', PartOfSpeech.ADJECTIVE, 'far'),
+    createWord('loin', PartOfSpeech.ADVERB, 'far', ['invariable']),
     createWord('grand', PartOfSpeech.ADJECTIVE, 'big'),
   ],
   [Topic.SCHOOL]: [
@@ -281,8 +296,69 @@ export const TOPIC_POOLS: Record<Topic, Word[]> = {
   ]
 };
 
-export const getWordsForGame = (topic: Topic): Word[] => {
-  return [...COMMON_WORDS, ...TOPIC_POOLS[topic]];
+export const DIFFICULTY_PROFILES: Record<Difficulty, DifficultyProfile> = {
+  [Difficulty.BEGINNER]: {
+    maxWordsPerCategory: 4,
+    preConjugate: true,
+    validationStrictness: 'lenient',
+    bonusSlotThreshold: 4,
+    scoreMultiplier: 1,
+  },
+  [Difficulty.INTERMEDIATE]: {
+    maxWordsPerCategory: 8,
+    preConjugate: false,
+    validationStrictness: 'standard',
+    bonusSlotThreshold: 5,
+    scoreMultiplier: 1.5,
+  },
+  [Difficulty.ADVANCED]: {
+    maxWordsPerCategory: null,
+    preConjugate: false,
+    validationStrictness: 'strict',
+    bonusSlotThreshold: 6,
+    scoreMultiplier: 2,
+  },
+};
+
+export const getDifficultyProfile = (difficulty: Difficulty): DifficultyProfile => {
+  return DIFFICULTY_PROFILES[difficulty] || DIFFICULTY_PROFILES[Difficulty.INTERMEDIATE];
+};
+
+// Trims topic vocabulary to the profile size. Past participles are kept only for the verbs that survive.
+export const limitTopicWords = (words: Word[], difficulty: Difficulty): Word[] => {
+  const limit = getDifficultyProfile(difficulty).maxWordsPerCategory;
+  if (limit === null) return words;
+
+  const limitedTypes = [PartOfSpeech.VERB_INF, PartOfSpeech.NOUN, PartOfSpeech.ADJECTIVE];
+  const counts: Partial<Record<PartOfSpeech, number>> = {};
+  const kept = words.filter(w => {
+    if (!limitedTypes.includes(w.type)) return true;
+    counts[w.type] = (counts[w.type] || 0) + 1;
+    return counts[w.type]! <= limit;
+  });
+
+  const keptParticiples = kept
+    .filter(w => w.type === PartOfSpeech.VERB_INF)
+    .map(w => conjugate(w.text)?.pastParticiple);
+  return kept.filter(w => w.type !== PartOfSpeech.VERB_PP || keptParticiples.includes(w.text));
+};
+
+export const getWordsForGame = (topic: Topic, difficulty: Difficulty = Difficulty.ADVANCED): Word[] => {
+  return [...COMMON_WORDS, ...limitTopicWords(TOPIC_POOLS[topic], difficulty)];
+};
+
+// Every word a game offers; a custom topic plays with the pack or AI words loaded for it (topicWords)
+export const getWordPool = (settings: GameSettings, topicWords: Word[]): Word[] =>
+  settings.topic === Topic.CUSTOM
+    ? [...COMMON_WORDS, ...limitTopicWords(topicWords, settings.difficulty)]
+    : getWordsForGame(settings.topic, settings.difficulty);
+
+// Score for a validated sentence: base 10, +5 for long sentences, +20 for answering a challenge
+export const calculateSentencePoints = (slotCount: number, isChallenge: boolean, difficulty: Difficulty): number => {
+  const profile = getDifficultyProfile(difficulty);
+  const basePoints = 10 + (slotCount > profile.bonusSlotThreshold ? 5 : 0);
+  const bonusPoints = isChallenge ? 20 : 0;
+  return Math.round((basePoints + bonusPoints) * profile.scoreMultiplier);
 };
 
 // Returns a Minimal starter seed
@@ -290,11 +366,27 @@ export const getStarterSentence = (): PartOfSpeech[] => {
   return []; // Return empty array to leave the board blank for the user
 };
 
+// Slots a new round starts with: a random word of each starter type from the pool
+export const getStarterSlots = (wordPool: Word[]): SentenceSlot[] =>
+  getStarterSentence().map((type, index) => {
+    const wordsOfType = wordPool.filter(w => w.type === type);
+    // Fallback if pool is empty (shouldn't happen with common words, but safety check)
+    const randomWord = wordsOfType.length > 0
+      ? wordsOfType[Math.floor(Math.random() * wordsOfType.length)]
+      : createWord('?', type, 'error');
+    return {
+      id: `slot-${index}-${Date.now()}`,
+      type,
+      value: randomWord,
+      placeholder: type.toString(),
+    };
+  });
+
 export const getTenseHint = (tense: Tense): string => {
   switch (tense) {
     case Tense.FUTUR_PROCHE: return "Hint: Subject + Aller + Infinitive";
     case Tense.PASSE_COMPOSE: return "Hint: Subject + Avoir/Être + Participle";
-    case Tense.IMPARFAIT: return "Hint: Describe a past state or habit";
+    case Tense.IMPARFAIT: return "Hint: Subject + Verb in -ais/-ait/-ions/-aient (past state or habit)";
     default: return "Hint: Subject + Verb + (Object/Adjective)";
   }
 };
@@ -312,7 +404,11 @@ const irregularAdjectives: Record<string, { f: string, mpl: string, fpl: string
   'dangereux': { f: 'dangereuse', mpl: 'dangereux', fpl: 'dangereuses' },
 };
 
+// -ail nouns that take -aux in the plural; the others just add an s (détail -> détails)
+const AIL_PLURALS_IN_AUX = ['bail', 'corail', 'émail', 'soupirail', 'travail', 'vantail', 'vitrail'];
+
 export const generateVariations = (word: Word, gender: 'm' | 'f', number: 's' | 'pl'): Word => {
+  if (word.tags?.includes('invariable')) return word;
   // Return a new Word object with modified text and translation
   const suffix = number === 'pl' ? '(pl)' : '';
   const gTag = gender === 'm' ? '(m)' : '(f)';
@@ -343,6 +439,8 @@ export const generateVariations = (word: Word, gender: 'm' | 'f', number: 's' |
             text += 'x';
         } else if (text.endsWith('al')) {
             text = text.slice(0, -2) + 'aux'; // cheval -> chevaux
+        } else if (AIL_PLURALS_IN_AUX.includes(text)) {
+            text = text.slice(0, -3) + 'aux'; // travail -> travaux
         } else {
             text += 's';
         }
@@ -387,10 +485,12 @@ export const generateVariations = (word: Word, gender: 'm' | 'f', number: 's' |
   return word;
 };
 
-// Helper to get all forms of a verb (Inf, PP, Conjugations)
-export const getVerbForms = (rootVerb: Word): { inf: Word, pp: Word | null, conjugations: Word[] } => {
+// Helper to get all forms of a verb (Inf, PP, Conjugations) for the target tense
+export const getVerbForms = (rootVerb: Word, tense: Tense = Tense.PRESENT): { inf: Word, pp: Word | null, conjugations: Word[] } => {
+    const isPresent = getConjugationTense(tense) === Tense.PRESENT;
+
     // If it's Avoir
-    if (rootVerb.text === 'avoir') {
+    if (rootVerb.text === 'avoir' && isPresent) {
         const inf = rootVerb;
         const pp = AUX_AVOIR_ETRE.find(w => w.type === PartOfSpeech.VERB_PP && w.text === 'eu') || null;
         
@@ -401,7 +501,7 @@ export const getVerbForms = (rootVerb: Word): { inf: Word, pp: Word | null, conj
         return { inf, pp, conjugations };
     }
     // If it's Etre
-    if (rootVerb.text === 'être') {
+    if (rootVerb.text === 'être' && isPresent) {
         const inf = rootVerb;
         const pp = AUX_AVOIR_ETRE.find(w => w.type === PartOfSpeech.VERB_PP && w.text === 'été') || null;
 
@@ -412,112 +512,100 @@ export const getVerbForms = (rootVerb: Word): { inf: Word, pp: Word | null, conj
         return { inf, pp, conjugations };
     }
     // If it's Aller
-    if (rootVerb.text === 'aller') {
+    if (rootVerb.text === 'aller' && isPresent) {
          const inf = rootVerb;
          const pp = AUX_ALLER.find(w => w.type === PartOfSpeech.VERB_PP) || null;
          const conjugations = AUX_ALLER.filter(w => w.type === PartOfSpeech.VERB_AUX);
          return { inf, pp, conjugations };
     }
     
-    // Regular -er verbs (and custom verbs generated by AI which are usually simple)
-    if (rootVerb.text.endsWith('er') || rootVerb.text.endsWith('ir') || rootVerb.text.endsWith('re')) {
-        // We assume we can generate or find the forms in the current pool or generate them on the fly
-        // For -er verbs specifically:
-        if (rootVerb.text.endsWith('er')) {
-            const conjugations = generateErVerbs(rootVerb.text, rootVerb.translation.replace('to ', ''));
-            const ppText = rootVerb.text.slice(0, -2) + 'é';
-            const pp = createWord(ppText, PartOfSpeech.VERB_PP, 'Past Participle');
-            return { inf: rootVerb, pp, conjugations };
-        }
+    // Everything else (regular -er/-ir/-re groups, stem-changing and irregular verbs) goes through the engine
+    const conjugation = conjugateWithOverrides(rootVerb.text, rootVerb.forms);
+    if (conjugation) {
+        const translationBase = rootVerb.translation.replace('to ', '').replace(' (Aux)', '');
+        const conjugations = generateConjugations(rootVerb.text, translationBase, tense, rootVerb.forms);
+        const pp = conjugation.pastParticiple ? createWord(conjugation.pastParticiple, PartOfSpeech.VERB_PP, 'Past Participle') : null;
+        return { inf: rootVerb, pp, conjugations };
     }
-    
-    // Fallback for irregulars in Topic lists that aren't Avoir/Etre/Aller (e.g., Boire, Lire)
-    // For now, we only support generating standard ER or manually finding forms if they exist in the pool.
-    // In this simplified version, we'll try to generate crude conjugations if missing, or return empty.
-    
+
     return { inf: rootVerb, pp: null, conjugations: [] };
 };
 
 // Helper: French Elision Logic (Contractions)
-// Converts "Je ai" -> "J'ai", "Le avion" -> "L'avion" etc.
-// Keep for fallback/validation string generation
-export const applyFrenchElision = (sentence: string): string => {
-    return sentence
-        // Je/Me/Te/Se/Le/La/De/Ne/Que/Ce + Vowel or H
-        .replace(/\b(je|me|te|se|le|la|de|ne|que|ce)\s+([aeiouyéàèùâêîôûh])/gi, (match, p1, p2) => {
-            const word = p1.toLowerCase();
-            const nextChar = p2.toLowerCase();
-            
-            if (word === 'ce') {
-                if (nextChar === 'e' || nextChar === 'é') return p1.slice(0, -1) + "'" + p2;
-                return match; 
-            }
-
-            return p1.slice(0, -1) + "'" + p2;
-        })
-        .replace(/\b(si)\s+(il)/gi, (match, p1, p2) => {
-             return "s'" + p2;
-        });
-};
+// Converts "Je ai" -> "J'ai", "à le parc" -> "au parc", "ma amie" -> "mon amie" etc.
+// Keep for fallback/validation string generation (rules live in contractionService)
+export const applyFrenchElision = (sentence: string): string => applyContractions(sentence);
 
 // --- VISUAL SLOT MERGE LOGIC ---
 
-// Helper to check if two slots should trigger an elision
-const shouldElide = (s1: SentenceSlot, s2: SentenceSlot): boolean => {
-    if (!s1.value || !s2.value) return false;
-    const w1 = s1.value.text.toLowerCase();
-    const w2 = s2.value.text.toLowerCase();
-    
-    // Triggers
-    const elisionTriggers = ['je', 'me', 'te', 'se', 'le', 'la', 'de', 'ne', 'que', 'jusque', 'si', 'ce'];
-    if (!elisionTriggers.includes(w1)) return false;
-    
-    // Target Vowels
-    const vowels = ['a', 'e', 'i', 'o', 'u', 'y', 'h', 'é', 'è', 'ê'];
-    if (!vowels.includes(w2.charAt(0))) return false;
-    
-    // Specific exceptions
-    if (w1 === 'si' && !w2.startsWith('il')) return false;
-    // 'Ce' mostly only elides with est/était/été in common usage
-    if (w1 === 'ce' && !w2.startsWith('est') && !w2.startsWith('ét')) return false; 
-    
-    return true;
-}
+// How a slot and the one after it should be written, using the slots' parts of speech as context
+const contractSlots = (slots: SentenceSlot[], i: number, current: SentenceSlot, next: SentenceSlot, after?: SentenceSlot): Contraction | null => {
+    if (!current.value || !next.value) return null;
+    return contractPair(current.value.text, next.value.text, {
+        before: slots[i - 1]?.value?.text,
+        after: after?.value?.text,
+        secondIsArticle: next.type === PartOfSpeech.ARTICLE,
+        secondIsNoun: next.type === PartOfSpeech.NOUN,
+        secondIsPlural: next.value.tags?.includes('plural'),
+    });
+};
 
-// Finds the first pair of slots that need elision
-export const findElisionCandidate = (slots: SentenceSlot[]): { index: number, mergedSlot: SentenceSlot } | null => {
-  for (let i = 0; i < slots.length - 1; i++) {
-     if (shouldElide(slots[i], slots[i+1])) {
-        const current = slots[i];
-        const next = slots[i+1];
-        
-        // Merge logic
-        const w1 = current.value!.text;
-        const w2 = next.value!.text;
-        
-        let prefix = w1.slice(0, -1); // je -> j
-        if (w1.toLowerCase() === 'si') prefix = w1.slice(0, -1); // si -> s, keep case if S
-        
-        // Construct merged text (e.g. J'ai)
-        const mergedText = `${prefix}'${w2}`;
-        
-        const mergedWord: Word = {
-            id: `${current.value!.id}+${next.value!.id}`,
-            text: mergedText,
-            type: next.value!.type, // Inherit type of the substantive/verb/main word
-            translation: `${current.value!.translation} + ${next.value!.translation}`,
-            tags: [...(current.value!.tags || []), ...(next.value!.tags || [])]
-        };
-        
-        const mergedSlot: SentenceSlot = {
-            id: current.id, // Reuse ID of the first slot
-            type: next.type, // Use type of the second slot (usually the main word)
-            value: mergedWord,
-            placeholder: next.placeholder
+// Elisions and contractions join two slots into one (j'ai, au); euphony respells the first slot
+// in place (ma amie -> mon amie). Either way the original slots are kept as parts.
+const buildContractedSlot = (current: SentenceSlot, next: SentenceSlot, contraction: Contraction): SentenceSlot => {
+    if (!contraction.joined) {
+        return {
+            ...current,
+            value: { ...current.value!, id: `${current.value!.id}+${contraction.kind}`, text: contraction.text },
+            parts: [current],
         };
+    }
+    const mergedWord: Word = {
+        id: `${current.value!.id}+${next.value!.id}`,
+        text: contraction.text,
+        // Elisions take the type of the main word (j'ai is a verb); au/du stay prepositions
+        type: contraction.kind === 'contraction' ? current.value!.type : next.value!.type,
+        translation: `${current.value!.translation} + ${next.value!.translation}`,
+        tags: [...(current.value!.tags || []), ...(next.value!.tags || [])]
+    };
+    return {
+        id: current.id, // Reuse ID of the first slot
+        type: contraction.kind === 'contraction' ? current.type : next.type,
+        value: mergedWord,
+        placeholder: contraction.kind === 'contraction' ? current.placeholder : next.placeholder,
+        parts: [current, next] // Kept so editing either word can split the slot back apart
+    };
+};
 
-        return { index: i, mergedSlot };
+// Finds the first pair of slots that need elision, contraction or euphony. `length` is how many slots
+// mergedSlot replaces (1 when only the first word is respelled).
+// (pairs for which keepApart returns true are skipped, e.g. ones the player un-merged with undo)
+export const findElisionCandidate = (
+  slots: SentenceSlot[],
+  keepApart?: (current: SentenceSlot, next: SentenceSlot) => boolean
+): { index: number, length: number, mergedSlot: SentenceSlot } | null => {
+  for (let i = 0; i < slots.length - 1; i++) {
+     const current = slots[i];
+     const next = slots[i + 1];
+     if (current.parts && !current.parts[1]) continue; // Already respelled
+     const contraction = contractSlots(slots, i, current, next, slots[i + 2]);
+     if (contraction && !keepApart?.(current, next)) {
+        return { index: i, length: contraction.joined ? 2 : 1, mergedSlot: buildContractedSlot(current, next, contraction) };
      }
   }
   return null;
-}
\ No newline at end of file
+}
+
+// Merged or respelled slots whose neighbours changed so the rule no longer gives the same text
+// ("au" followed by a new "hôtel", "mon" before a new "maison") go back to their original slots.
+export const releaseStaleContractions = (slots: SentenceSlot[]): SentenceSlot[] =>
+  slots.flatMap((slot, i) => {
+    if (!slot.parts) return [slot];
+    const [first, second = slots[i + 1]] = slot.parts;
+    const after = slot.parts[1] ? slots[i + 1] : slots[i + 2];
+    const contraction = second ? contractSlots(slots, i, first, second, after) : null;
+    return contraction?.text === slot.value?.text ? [slot] : slot.parts;
+  });
+
+// The slots an elided slot was merged from (j'ai -> je, ai); any other slot stands alone
+export const unmergeSlot = (slot: SentenceSlot): SentenceSlot[] => slot.parts || [slot];
\ No newline at end of file
@@ -0,0 +1,90 @@
+// Local duel server: relays messages between the players of a room (see services/duelClient.ts).
+// Run with `npm run duel-server`; players on the same network connect to ws://<this machine>:8787.
+// It keeps no game state: the first player in a room hosts the duel and the others follow.
+
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.DUEL_PORT) || 8787;
+const MAX_PLAYERS = 4;
+
+// room code -> { players: [{ id, name, socket }], started, closed }
+const rooms = new Map();
+let nextPlayerId = 1;
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcastRoster = (room) => {
+  const players = room.players.map(({ id, name }) => ({ id, name }));
+  room.players.forEach(p => send(p.socket, { type: 'roster', players }));
+};
+
+const refuse = (socket, message) => {
+  send(socket, { type: 'error', message });
+  socket.close();
+};
+
+const wss = new WebSocketServer({ port: PORT, host: '0.0.0.0' });
+
+wss.on('connection', (socket) => {
+  let room = null;
+  let player = null;
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+
+    if (message.type === 'join' && !player) {
+      const code = String(message.room || '').trim().toUpperCase();
+      const name = String(message.name || '').trim().slice(0, 24);
+      if (!code || !name) return refuse(socket, 'A name and a room code are needed to join.');
+
+      const existing = rooms.get(code);
+      if (existing?.started) return refuse(socket, 'That duel has already started.');
+      if (existing && existing.players.length >= MAX_PLAYERS) return refuse(socket, `That room is full (${MAX_PLAYERS} players).`);
+
+      room = existing || { players: [], started: false, closed: false };
+      rooms.set(code, room);
+      player = { id: `p${nextPlayerId++}`, name, socket };
+      room.players.push(player);
+      send(socket, { type: 'welcome', playerId: player.id, isHost: room.players[0] === player });
+      broadcastRoster(room);
+      return;
+    }
+
+    if (!room || !player) return;
+    const host = room.players[0];
+
+    // The host's state goes to every guest; the first one starts the duel (no more joining)
+    if (message.type === 'sync' && player === host) {
+      room.started = true;
+      room.players.forEach(p => { if (p !== host) send(p.socket, { type: 'sync', sync: message.sync }); });
+    } else if (message.type === 'answer' && player !== host) {
+      send(host.socket, { type: 'answer', from: player.id, submission: message.submission });
+    }
+  });
+
+  socket.on('close', () => {
+    if (!room || !player || room.closed) return;
+    const wasHost = room.players[0] === player;
+    room.players = room.players.filter(p => p !== player);
+    if (wasHost || room.players.length === 0) {
+      // Nobody else can run the duel: close the room
+      room.closed = true;
+      room.players.forEach(p => {
+        send(p.socket, { type: 'closed', reason: 'The host left the duel.' });
+        p.socket.close();
+      });
+      for (const [code, r] of rooms) if (r === room) rooms.delete(code);
+    } else {
+      broadcastRoster(room);
+    }
+  });
+});
+
+wss.on('listening', () => console.log(`Duel server listening on ws://0.0.0.0:${PORT}`));
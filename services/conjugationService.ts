@@ -0,0 +1,215 @@
+// French conjugation engine. Pure string logic (no Word objects) so it can be
+// shared by the word pool helpers in constants.ts and by the grammar checker.
+
+import { VerbFormOverrides } from "../types";
+
+// Order of the six persons used by every form table below
+export const PERSONS = ['Je', 'Tu', 'Il', 'Nous', 'Vous', 'Ils'] as const;
+export type Person = typeof PERSONS[number];
+
+// Subject pronouns each person form agrees with (stored on Word.tags)
+export const PERSON_TAGS: Record<Person, string[]> = {
+  Je: ['Je'],
+  Tu: ['Tu'],
+  Il: ['Il', 'Elle'],
+  Nous: ['Nous'],
+  Vous: ['Vous'],
+  Ils: ['Ils', 'Elles'],
+};
+
+export type VerbGroup = 'er' | 'ir' | 're' | 'irregular';
+
+export interface Conjugation {
+  infinitive: string;
+  group: VerbGroup;
+  present: string[]; // One form per entry in PERSONS
+  imparfait: string[];
+  pastParticiple: string;
+}
+
+interface IrregularVerb {
+  present: string[];
+  pastParticiple: string;
+  // If set, the entry also conjugates compounds ending with the key (prendre -> apprendre)
+  prefixable?: boolean;
+}
+
+// -tir/-mir/-vir verbs drop the stem consonant in the singular (partir -> je pars)
+const shortIrVerb = (infinitive: string): IrregularVerb => {
+  const stem = infinitive.slice(0, -2);
+  const short = stem.slice(0, -1);
+  return {
+    present: [`${short}s`, `${short}s`, `${short}t`, `${stem}ons`, `${stem}ez`, `${stem}ent`],
+    pastParticiple: `${stem}i`,
+    prefixable: true,
+  };
+};
+
+// Common irregular verbs. Keys may be suffixes (e.g. 'enir' covers venir, tenir, devenir)
+const IRREGULAR_VERBS: Record<string, IrregularVerb> = {
+  'être': { present: ['suis', 'es', 'est', 'sommes', 'êtes', 'sont'], pastParticiple: 'été' },
+  'avoir': { present: ['ai', 'as', 'a', 'avons', 'avez', 'ont'], pastParticiple: 'eu' },
+  'aller': { present: ['vais', 'vas', 'va', 'allons', 'allez', 'vont'], pastParticiple: 'allé' },
+  'faire': { present: ['fais', 'fais', 'fait', 'faisons', 'faites', 'font'], pastParticiple: 'fait', prefixable: true },
+  'dire': { present: ['dis', 'dis', 'dit', 'disons', 'dites', 'disent'], pastParticiple: 'dit' },
+  'prendre': { present: ['prends', 'prends', 'prend', 'prenons', 'prenez', 'prennent'], pastParticiple: 'pris', prefixable: true },
+  'mettre': { present: ['mets', 'mets', 'met', 'mettons', 'mettez', 'mettent'], pastParticiple: 'mis', prefixable: true },
+  'boire': { present: ['bois', 'bois', 'boit', 'buvons', 'buvez', 'boivent'], pastParticiple: 'bu' },
+  'lire': { present: ['lis', 'lis', 'lit', 'lisons', 'lisez', 'lisent'], pastParticiple: 'lu', prefixable: true },
+  'crire': { present: ['cris', 'cris', 'crit', 'crivons', 'crivez', 'crivent'], pastParticiple: 'crit', prefixable: true }, // écrire, décrire
+  'battre': { present: ['bats', 'bats', 'bat', 'battons', 'battez', 'battent'], pastParticiple: 'battu', prefixable: true },
+  'croire': { present: ['crois', 'crois', 'croit', 'croyons', 'croyez', 'croient'], pastParticiple: 'cru' },
+  'vivre': { present: ['vis', 'vis', 'vit', 'vivons', 'vivez', 'vivent'], pastParticiple: 'vécu', prefixable: true },
+  'suivre': { present: ['suis', 'suis', 'suit', 'suivons', 'suivez', 'suivent'], pastParticiple: 'suivi', prefixable: true },
+  'rire': { present: ['ris', 'ris', 'rit', 'rions', 'riez', 'rient'], pastParticiple: 'ri', prefixable: true },
+  'naître': { present: ['nais', 'nais', 'naît', 'naissons', 'naissez', 'naissent'], pastParticiple: 'né' },
+  'aître': { present: ['ais', 'ais', 'aît', 'aissons', 'aissez', 'aissent'], pastParticiple: 'u', prefixable: true }, // connaître, disparaître
+  'uire': { present: ['uis', 'uis', 'uit', 'uisons', 'uisez', 'uisent'], pastParticiple: 'uit', prefixable: true }, // conduire, construire
+  'aindre': { present: ['ains', 'ains', 'aint', 'aignons', 'aignez', 'aignent'], pastParticiple: 'aint', prefixable: true }, // craindre
+  'eindre': { present: ['eins', 'eins', 'eint', 'eignons', 'eignez', 'eignent'], pastParticiple: 'eint', prefixable: true }, // peindre
+  'enir': { present: ['iens', 'iens', 'ient', 'enons', 'enez', 'iennent'], pastParticiple: 'enu', prefixable: true }, // venir, tenir
+  'vrir': { present: ['vre', 'vres', 'vre', 'vrons', 'vrez', 'vrent'], pastParticiple: 'vert', prefixable: true }, // ouvrir, découvrir
+  'frir': { present: ['fre', 'fres', 'fre', 'frons', 'frez', 'frent'], pastParticiple: 'fert', prefixable: true }, // offrir, souffrir
+  'courir': { present: ['cours', 'cours', 'court', 'courons', 'courez', 'courent'], pastParticiple: 'couru', prefixable: true },
+  'mourir': { present: ['meurs', 'meurs', 'meurt', 'mourons', 'mourez', 'meurent'], pastParticiple: 'mort' },
+  'partir': shortIrVerb('partir'),
+  'sortir': shortIrVerb('sortir'),
+  'sentir': shortIrVerb('sentir'),
+  'mentir': shortIrVerb('mentir'),
+  'dormir': shortIrVerb('dormir'),
+  'servir': shortIrVerb('servir'),
+  'pouvoir': { present: ['peux', 'peux', 'peut', 'pouvons', 'pouvez', 'peuvent'], pastParticiple: 'pu' },
+  'vouloir': { present: ['veux', 'veux', 'veut', 'voulons', 'voulez', 'veulent'], pastParticiple: 'voulu' },
+  'devoir': { present: ['dois', 'dois', 'doit', 'devons', 'devez', 'doivent'], pastParticiple: 'dû' },
+  'savoir': { present: ['sais', 'sais', 'sait', 'savons', 'savez', 'savent'], pastParticiple: 'su' },
+  'cevoir': { present: ['çois', 'çois', 'çoit', 'cevons', 'cevez', 'çoivent'], pastParticiple: 'çu', prefixable: true }, // recevoir
+  'voir': { present: ['vois', 'vois', 'voit', 'voyons', 'voyez', 'voient'], pastParticiple: 'vu', prefixable: true },
+};
+
+// -eler/-eter verbs that double the consonant instead of taking a grave accent
+const DOUBLING_VERBS = ['appeler', 'rappeler', 'épeler', 'renouveler', 'jeter', 'rejeter', 'projeter', 'feuilleter'];
+
+// Finds the irregular entry for an infinitive: exact match first, then the longest prefixable suffix
+const findIrregular = (infinitive: string): { entry: IrregularVerb; prefix: string } | null => {
+  if (IRREGULAR_VERBS[infinitive]) return { entry: IRREGULAR_VERBS[infinitive], prefix: '' };
+
+  const key = Object.keys(IRREGULAR_VERBS)
+    .filter(k => IRREGULAR_VERBS[k].prefixable && infinitive.endsWith(k) && infinitive.length > k.length)
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return null;
+  return { entry: IRREGULAR_VERBS[key], prefix: infinitive.slice(0, -key.length) };
+};
+
+// Stem used in the "boot" forms (je, tu, il, ils) of stem-changing -er verbs
+const getBootStem = (infinitive: string, stem: string): string => {
+  // -yer: nettoyer -> nettoie (ayer verbs may keep the y; we use the i form)
+  if (stem.endsWith('y')) return stem.slice(0, -1) + 'i';
+
+  // é + consonant(s) + er: préférer -> préfère, célébrer -> célèbre
+  const acute = stem.match(/^(.*)é(ch|gn|gu|qu|[bcdfgjklmnpqrstvz][lr]?)$/);
+  if (acute) return `${acute[1]}è${acute[2]}`;
+
+  // e + single consonant + er: acheter -> achète, appeler -> appelle
+  const mute = stem.match(/^(.*[^aeiouyéèêâîôû])e([bcdfgjklmnpqrstvz])$/);
+  if (mute) {
+    return DOUBLING_VERBS.includes(infinitive)
+      ? `${stem}${mute[2]}`
+      : `${mute[1]}è${mute[2]}`;
+  }
+
+  return stem;
+};
+
+const IMPARFAIT_ENDINGS = ['ais', 'ais', 'ait', 'ions', 'iez', 'aient'];
+
+// Imparfait is built on the present "nous" stem (finissons -> finiss-), except être (ét-)
+const conjugateImparfait = (infinitive: string, present: string[]): string[] => {
+  const stem = infinitive === 'être' ? 'ét' : present[3].replace(/ons$/, '');
+  return IMPARFAIT_ENDINGS.map(ending => {
+    // The spelling helpers of -cer/-ger verbs are only needed before a/o (commençais but commencions)
+    if (ending.startsWith('i') && stem.endsWith('ç')) return `${stem.slice(0, -1)}c${ending}`;
+    if (ending.startsWith('i') && stem.endsWith('ge')) return `${stem.slice(0, -1)}${ending}`;
+    return stem + ending;
+  });
+};
+
+const conjugateEr = (infinitive: string): string[] => {
+  const stem = infinitive.slice(0, -2);
+  const boot = getBootStem(infinitive, stem);
+
+  // -ger and -cer verbs keep their soft sound in the nous form (mangeons, commençons)
+  let nousForm = `${stem}ons`;
+  if (infinitive.endsWith('ger')) nousForm = `${stem}eons`;
+  else if (infinitive.endsWith('cer')) nousForm = `${stem.slice(0, -1)}çons`;
+
+  return [`${boot}e`, `${boot}es`, `${boot}e`, nousForm, `${stem}ez`, `${boot}ent`];
+};
+
+const conjugateIr = (infinitive: string): string[] => {
+  const stem = infinitive.slice(0, -2);
+  return [`${stem}is`, `${stem}is`, `${stem}it`, `${stem}issons`, `${stem}issez`, `${stem}issent`];
+};
+
+const conjugateRe = (infinitive: string): string[] => {
+  const stem = infinitive.slice(0, -2);
+  return [`${stem}s`, `${stem}s`, stem, `${stem}ons`, `${stem}ez`, `${stem}ent`];
+};
+
+export const conjugate = (rawInfinitive: string): Conjugation | null => {
+  const infinitive = rawInfinitive.trim().toLowerCase();
+
+  const irregular = findIrregular(infinitive);
+  if (irregular) {
+    const { entry, prefix } = irregular;
+    const present = entry.present.map(form => prefix + form);
+    return {
+      infinitive,
+      group: 'irregular',
+      present,
+      imparfait: conjugateImparfait(infinitive, present),
+      pastParticiple: prefix + entry.pastParticiple,
+    };
+  }
+
+  const stem = infinitive.slice(0, -2);
+  let group: VerbGroup;
+  let present: string[];
+  let pastParticiple: string;
+  if (infinitive.endsWith('er')) {
+    group = 'er';
+    present = conjugateEr(infinitive);
+    pastParticiple = `${stem}é`;
+  } else if (infinitive.endsWith('ir')) {
+    group = 'ir';
+    present = conjugateIr(infinitive);
+    pastParticiple = `${stem}i`;
+  } else if (infinitive.endsWith('re')) {
+    group = 're';
+    present = conjugateRe(infinitive);
+    pastParticiple = `${stem}u`;
+  } else {
+    return null;
+  }
+
+  return { infinitive, group, present, imparfait: conjugateImparfait(infinitive, present), pastParticiple };
+};
+
+// Hand-written forms (e.g. from a lesson pack) win over the engine. A verb the engine
+// can't conjugate still works as long as its present tense is supplied.
+export const conjugateWithOverrides = (rawInfinitive: string, overrides?: VerbFormOverrides): Conjugation | null => {
+  const conjugation = conjugate(rawInfinitive);
+  if (!overrides) return conjugation;
+
+  const infinitive = rawInfinitive.trim().toLowerCase();
+  const present = overrides.present || conjugation?.present;
+  if (!present) return null;
+
+  return {
+    infinitive,
+    group: conjugation && !overrides.present ? conjugation.group : 'irregular',
+    present,
+    imparfait: overrides.imparfait
+      || (overrides.present || !conjugation ? conjugateImparfait(infinitive, present) : conjugation.imparfait),
+    pastParticiple: overrides.pastParticiple || conjugation?.pastParticiple || '',
+  };
+};
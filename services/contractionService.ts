@@ -0,0 +1,137 @@
+// French elision, contraction and euphony rules. Pure string logic (no Word objects) so it can be
+// shared by the slab merge in constants.ts, the sentence string sent to the judge and the parser.
+
+export type ContractionKind = 'elision' | 'contraction' | 'euphony';
+
+export interface Contraction {
+  kind: ContractionKind;
+  text: string; // "j'ai", "au", or the respelled first word for euphony ("mon", "bel")
+  joined: boolean; // The two words become one; false when only the first word changes ("ma amie" -> "mon amie")
+}
+
+// What is known about the words around a pair. Slots know their parts of speech; plain strings don't,
+// so undefined fields fall back to guesses from the spelling.
+export interface ContractionContext {
+  before?: string; // Word before the pair
+  after?: string; // Word after the pair
+  secondIsArticle?: boolean; // "le" the article contracts (au parc), "le" the pronoun doesn't (de le faire)
+  secondIsNoun?: boolean;
+  secondIsPlural?: boolean;
+}
+
+// Words starting with an h aspiré (and a few semi-vowel y words): no elision, liaison or euphony before them.
+// Stored without inflection; plurals and feminines are matched by isHAspire, verbs by their stems below.
+const H_ASPIRE = new Set([
+  'hache', 'haïr', 'hais', 'hait', 'haï', 'haine', 'haie', 'hall', 'halle', 'halte', 'hamac', 'hamburger', 'hameau', 'hamster',
+  'hanche', 'handicap', 'hangar', 'hardi', 'hareng', 'haricot', 'harpe', 'hasard',
+  'hâte', 'hausse', 'haut', 'hauteur', 'havre', 'héron', 'héros', 'hérisson', 'hêtre', 'hibou',
+  'hiérarchie', 'hippie', 'hockey', 'hollandais', 'homard', 'hongrois', 'honte', 'honteux', 'hoquet', 'hors',
+  'hotte', 'houx', 'hublot', 'huer', 'hue', 'hues', 'huent', 'hué', 'huit', 'huitième', 'hutte',
+  'yaourt', 'yacht', 'yoga', 'yoyo',
+]);
+
+// Every conjugated form of these verbs starts with the stem (hurler -> je hurle, ils hurlaient)
+const H_ASPIRE_VERB_STEMS = ['hurl', 'hant', 'heurt', 'harcel', 'harcèl', 'haïss'];
+
+const VOWELS = 'aeiouyàâäéèêëîïôöùûüœæ';
+
+const ELIDING = ['je', 'me', 'te', 'se', 'le', 'la', 'de', 'ne', 'que', 'jusque', 'lorsque', 'puisque', 'si', 'ce'];
+
+// à/de + le/les
+const CONTRACTIONS: Record<string, Record<string, string>> = {
+  'à': { le: 'au', les: 'aux' },
+  de: { le: 'du', les: 'des' },
+};
+
+// Feminine possessives take the masculine form before a vowel sound (ma amie -> mon amie)
+const POSSESSIVE_EUPHONY: Record<string, string> = { ma: 'mon', ta: 'ton', sa: 'son' };
+
+// Masculine singular adjectives with a liaison form before a vowel-sound noun (beau -> bel arbre)
+const LIAISON_FORMS: Record<string, string> = { beau: 'bel', nouveau: 'nouvel', vieux: 'vieil', fou: 'fol', mou: 'mol' };
+
+// Determiners that show the next-but-one word is a noun when parts of speech aren't known (un beau arbre)
+const DETERMINERS = ['un', 'le', 'ce', 'mon', 'ton', 'son', 'notre', 'votre', 'leur', 'quel', 'chaque', 'aucun'];
+
+// Contracted and respelled forms, and the words they stand for (used to parse typed sentences)
+export const EXPANSIONS: Record<string, string[]> = {
+  au: ['à', 'le'],
+  aux: ['à', 'les'],
+  du: ['de', 'le'],
+  ...Object.fromEntries(Object.entries(LIAISON_FORMS).map(([base, form]) => [form, [base]])),
+};
+
+const bare = (word: string) => word.toLowerCase().replace(/[.,!?;:«»"()]/g, '');
+
+const withCaseOf = (original: string, replacement: string) =>
+  original.charAt(0) !== original.charAt(0).toLowerCase() ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+
+export const isHAspire = (word: string): boolean => {
+  const w = bare(word);
+  const singular = w.replace(/[sx]$/, '');
+  if (H_ASPIRE_VERB_STEMS.some(stem => w.startsWith(stem))) return true;
+  return H_ASPIRE.has(w) || H_ASPIRE.has(singular) || H_ASPIRE.has(singular.replace(/e$/, '')) || H_ASPIRE.has(singular.replace(/euse$/, 'eux'));
+};
+
+// Vowels and mute h elide the word before; h aspiré doesn't (l'hôtel, le héros)
+export const startsWithVowelSound = (word: string): boolean => {
+  const w = bare(word);
+  if (!w) return false;
+  if (w.charAt(0) === 'h') return !isHAspire(w);
+  return VOWELS.includes(w.charAt(0)) && !isHAspire(w);
+};
+
+// How the pair first + second is written, or null when both stay as they are
+export const contractPair = (first: string, second: string, context: ContractionContext = {}): Contraction | null => {
+  const w1 = bare(first);
+  const w2 = bare(second);
+  if (!w1 || !w2) return null;
+
+  if (ELIDING.includes(w1) && startsWithVowelSound(w2)) {
+    const elides =
+      w1 === 'si' ? w2 === 'il' || w2 === 'ils'
+      // 'Ce' mostly only elides with est/était/été in common usage
+      : w1 === 'ce' ? w2.startsWith('est') || w2.startsWith('ét')
+      : w1 === 'lorsque' || w1 === 'puisque' ? ['il', 'ils', 'elle', 'elles', 'on', 'un', 'une'].includes(w2)
+      : true;
+    if (elides) return { kind: 'elision', text: `${first.slice(0, -1)}'${second}`, joined: true };
+  }
+
+  const contracted = CONTRACTIONS[w1]?.[w2];
+  // "à le hôtel" is "à l'hôtel": the article elides instead
+  const articleElides = w2 === 'le' && !!context.after && startsWithVowelSound(context.after);
+  if (contracted && context.secondIsArticle !== false && !articleElides) {
+    return { kind: 'contraction', text: withCaseOf(first, contracted), joined: true };
+  }
+
+  if (POSSESSIVE_EUPHONY[w1] && startsWithVowelSound(w2)) {
+    return { kind: 'euphony', text: withCaseOf(first, POSSESSIVE_EUPHONY[w1]), joined: false };
+  }
+
+  if (LIAISON_FORMS[w1] && startsWithVowelSound(w2)) {
+    const isNoun = context.secondIsNoun ?? (!!context.before && DETERMINERS.includes(bare(context.before)));
+    const isPlural = context.secondIsPlural ?? /[sx]$/.test(w2);
+    if (isNoun && !isPlural) return { kind: 'euphony', text: withCaseOf(first, LIAISON_FORMS[w1]), joined: false };
+  }
+
+  return null;
+};
+
+// Applies every rule to a sentence, left to right ("Je ai vu le ami de le héros" -> "J'ai vu l'ami du héros")
+export const applyContractions = (sentence: string): string => {
+  const words = sentence.split(/\s+/).filter(Boolean);
+  const out: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const contraction = i + 1 < words.length
+      ? contractPair(words[i], words[i + 1], { before: out[out.length - 1], after: words[i + 2] })
+      : null;
+    if (!contraction) {
+      out.push(words[i]);
+    } else if (contraction.joined) {
+      out.push(contraction.text);
+      i++;
+    } else {
+      out.push(contraction.text);
+    }
+  }
+  return out.join(' ');
+};
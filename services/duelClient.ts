@@ -0,0 +1,82 @@
+import { GameSettings, Word } from "../types";
+import { DuelState, DuelSubmission } from "./duelMachine";
+
+// Network duels go through the local duel server (server/duelServer.js, `npm run duel-server`).
+// The server only relays: the first player in a room hosts, runs the duel reducer and sends
+// the state to everyone else; guests send their answers back to the host.
+
+export const DUEL_SERVER_PORT = 8787;
+
+// Everything a guest needs to play the host's duel
+export interface DuelSync {
+  settings: GameSettings;
+  wordPool: Word[];
+  duel: DuelState;
+}
+
+export interface RosterPlayer {
+  id: string;
+  name: string;
+}
+
+// Server -> client
+export type DuelServerMessage =
+  | { type: 'welcome'; playerId: string; isHost: boolean }
+  | { type: 'roster'; players: RosterPlayer[] } // Everyone in the room, host first
+  | { type: 'sync'; sync: DuelSync }
+  | { type: 'answer'; from: string; submission: DuelSubmission } // Delivered to the host only
+  | { type: 'closed'; reason: string } // The host left
+  | { type: 'error'; message: string }; // Join refused (room full or already playing)
+
+// Client -> server
+export type DuelClientMessage =
+  | { type: 'join'; room: string; name: string }
+  | { type: 'sync'; sync: DuelSync } // Host only
+  | { type: 'answer'; submission: DuelSubmission }; // Guests only
+
+export interface DuelConnection {
+  send: (message: DuelClientMessage) => void;
+  close: () => void;
+}
+
+// The duel server on the machine serving the game (players on the same network open the same address)
+export const defaultDuelServerUrl = (): string =>
+  `ws://${window.location.hostname || 'localhost'}:${DUEL_SERVER_PORT}`;
+
+export const connectDuel = (
+  serverUrl: string,
+  room: string,
+  name: string,
+  onMessage: (message: DuelServerMessage) => void,
+  onClose: () => void
+): DuelConnection => {
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(serverUrl);
+  } catch (error) {
+    // Malformed URL: reported like a server that can't be reached
+    console.error("Duel server connection error:", error);
+    setTimeout(onClose);
+    return { send: () => {}, close: () => {} };
+  }
+
+  socket.onopen = () => socket.send(JSON.stringify({ type: 'join', room, name }));
+  socket.onmessage = (event) => {
+    try {
+      onMessage(JSON.parse(event.data));
+    } catch (error) {
+      console.error("Duel message error:", error);
+    }
+  };
+  socket.onclose = onClose;
+
+  return {
+    send: (message) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      socket.onclose = null;
+      socket.close();
+    },
+  };
+};
@@ -0,0 +1,154 @@
+import { GameSettings, GameState, SentenceSlot, ValidationResult } from "../types";
+import { calculateSentencePoints } from "../constants";
+import { BLITZ_START_SECONDS, creditVerdict } from "./gameMachine";
+
+// The rules of a duel as a pure reducer: 2-4 players answer the same prompt each round and are scored
+// on their own sheet with the solo game's rules. The same state runs a hot-seat duel on one device and,
+// on the host's device, a network duel (guests receive it over the duel server).
+
+export const DUEL_ROUND_LIMIT = 5;
+export const MIN_DUEL_PLAYERS = 2;
+export const MAX_DUEL_PLAYERS = 4;
+
+// What every player answers this round: an English sentence to translate, or a question to reply to
+export interface DuelPrompt {
+  kind: 'inspiration' | 'challenge';
+  text: string;
+}
+
+// What a player's turn produced. Guests send this to the host, which scores it itself.
+export interface DuelSubmission {
+  sentence: string; // As sent to the judge
+  result: ValidationResult | null; // null: skipped after the judge failed to answer
+  slotCount: number; // Blocks in the judged sentence (long sentences earn a bonus)
+}
+
+export interface DuelAnswer extends DuelSubmission {
+  points: number; // Scored by whoever runs the duel, with the solo game's rules
+}
+
+export interface DuelPlayer {
+  id: string;
+  name: string;
+  game: GameState; // Score sheet, credited like a solo game
+  left?: boolean; // Disconnected from a network duel; the rounds go on without them
+}
+
+export interface DuelRound {
+  prompt: DuelPrompt;
+  starter: SentenceSlot[]; // Slab every player starts from, drawn once for the round
+  answers: Record<string, DuelAnswer>; // By player id
+}
+
+export interface DuelState {
+  settings: GameSettings;
+  players: DuelPlayer[];
+  rounds: DuelRound[];
+  // prompt: waiting for the first prompt; turns: answers coming in; results: round scored side by side
+  phase: 'prompt' | 'turns' | 'results' | 'over';
+}
+
+export type DuelEvent =
+  | { type: 'ROUND_START'; prompt: DuelPrompt; starter: SentenceSlot[] }
+  | { type: 'ANSWER'; playerId: string; submission: DuelSubmission }
+  | { type: 'LEAVE'; playerId: string }
+  | { type: 'END' };
+
+export interface LeaderboardEntry {
+  player: DuelPlayer;
+  rank: number; // Tied players share a rank (1, 1, 3)
+}
+
+export const createDuelState = (settings: GameSettings, players: { id: string; name: string }[]): DuelState => ({
+  settings,
+  players: players.map(({ id, name }) => ({
+    id,
+    name,
+    game: { score: 0, sentencesCompleted: 0, timeLeft: BLITZ_START_SECONDS, isPlaying: true, isGameOver: false },
+  })),
+  rounds: [],
+  phase: 'prompt',
+});
+
+// --- Selectors ---
+
+export const currentRound = (state: DuelState): DuelRound | null => state.rounds[state.rounds.length - 1] || null;
+
+// Players still to answer this round, in seating order (the first one plays next on a shared device)
+export const waitingFor = (state: DuelState): DuelPlayer[] => {
+  const round = currentRound(state);
+  if (state.phase !== 'turns' || !round) return [];
+  return state.players.filter(p => !p.left && !round.answers[p.id]);
+};
+
+// Everyone who played, best first: points, then correct sentences
+export const leaderboard = (state: DuelState): LeaderboardEntry[] => {
+  const sorted = [...state.players].sort((a, b) =>
+    b.game.score - a.game.score || b.game.sentencesCompleted - a.game.sentencesCompleted);
+  return sorted.map(player => ({
+    player,
+    rank: sorted.findIndex(p => p.game.score === player.game.score && p.game.sentencesCompleted === player.game.sentencesCompleted) + 1,
+  }));
+};
+
+// A question the judge asked someone last round, to be everyone's challenge next round (null if none is new)
+export const nextChallenge = (state: DuelState): string | null => {
+  const round = currentRound(state);
+  if (!round) return null;
+  const asked = state.rounds.map(r => r.prompt.text);
+  const question = state.players
+    .map(p => round.answers[p.id]?.result)
+    .find(result => result?.isValid && result.followUpQuestion && !asked.includes(result.followUpQuestion));
+  return question?.followUpQuestion || null;
+};
+
+// --- Transitions ---
+
+// The round is over once every player still in the duel has answered
+const closeRoundIfDone = (state: DuelState): DuelState => {
+  if (state.phase !== 'turns') return state;
+  if (state.players.every(p => p.left)) return { ...state, phase: 'over' };
+  return waitingFor(state).length === 0 ? { ...state, phase: 'results' } : state;
+};
+
+export const duelReducer = (state: DuelState, event: DuelEvent): DuelState => {
+  switch (event.type) {
+    case 'ROUND_START': {
+      if (state.phase !== 'prompt' && state.phase !== 'results') return state;
+      if (state.rounds.length >= DUEL_ROUND_LIMIT) return { ...state, phase: 'over' };
+      return { ...state, rounds: [...state.rounds, { prompt: event.prompt, starter: event.starter, answers: {} }], phase: 'turns' };
+    }
+
+    case 'ANSWER': {
+      const round = currentRound(state);
+      const player = state.players.find(p => p.id === event.playerId);
+      // Late, repeated and unknown answers (a guest who joined after the start) don't count
+      if (!round || !waitingFor(state).includes(player)) return state;
+      const { submission } = event;
+      const wasChallenge = round.prompt.kind === 'challenge';
+      const answer: DuelAnswer = {
+        ...submission,
+        points: submission.result?.isValid ? calculateSentencePoints(submission.slotCount, wasChallenge, state.settings.difficulty) : 0,
+      };
+      return closeRoundIfDone({
+        ...state,
+        players: state.players.map(p => p === player && answer.result
+          ? { ...p, game: creditVerdict(p.game, state.settings, answer.result, answer.points, wasChallenge) }
+          : p),
+        rounds: [...state.rounds.slice(0, -1), { ...round, answers: { ...round.answers, [player.id]: answer } }],
+      });
+    }
+
+    case 'LEAVE':
+      return closeRoundIfDone({
+        ...state,
+        players: state.players.map(p => p.id === event.playerId ? { ...p, left: true } : p),
+      });
+
+    case 'END':
+      return { ...state, phase: 'over' };
+
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,329 @@
+import { GameMode, GameSettings, GameState, ReviewCard, SentenceSlot, ValidationResult, Word } from "../types";
+import { calculateSentencePoints, findElisionCandidate, releaseStaleContractions, unmergeSlot } from "../constants";
+import { AiCallError } from "./llmProvider";
+
+// The rules of a game as a pure reducer: rounds, scoring, the Blitz clock, challenges and elision merges.
+// Anything random or time-based (starter words, slot ids, pack questions) is decided by the caller and
+// passed in with the event, so the same events always produce the same game.
+
+export const STANDARD_ROUND_LIMIT = 10; // Standard games end on the first "next" after this many correct sentences
+export const BLITZ_START_SECONDS = 60;
+export const BLITZ_TIME_REWARD = 10;
+export const BLITZ_CHALLENGE_TIME_REWARD = 15;
+const QUESTION_HISTORY_SIZE = 10;
+const UNDO_LIMIT = 50;
+
+export interface GameMachineState {
+  settings: GameSettings;
+  game: GameState;
+  slots: SentenceSlot[];
+  activeSlotId: string | null; // Slot open in the word picker
+  isAddingNew: boolean; // Picker is open to append a new slot
+  mergingIndex: number | null; // First slot being animated into an elision, contraction or euphony form
+  validation: ValidationResult | null;
+  isValidating: boolean;
+  judgeError: AiCallError | null; // The judge failed to answer (not a verdict)
+  pendingChallenge: string | null; // Question offered after a correct sentence
+  activeChallenge: string | null; // Question the current sentence answers
+  questionHistory: string[]; // Recent questions, so they aren't repeated
+  reviewingCard: ReviewCard | null; // Review mode: card being rebuilt
+  undoStack: SentenceSlot[][]; // Earlier versions of the sentence this round, most recent last
+  redoStack: SentenceSlot[][];
+  keptApart: string[]; // Elision pairs (pairKey) the player un-merged, so they aren't merged again
+}
+
+// What the next round starts with; null means a Review game has no card left
+export type RoundSetup = { slots: SentenceSlot[]; reviewingCard: ReviewCard | null } | null;
+
+export type GameEvent =
+  | { type: 'START_ROUND'; round: RoundSetup }
+  | { type: 'SELECT_SLOT'; slotId: string } // Toggles the picker for that slot
+  | { type: 'OPEN_ADD' }
+  | { type: 'CLOSE_PICKER' }
+  // Fills the open slot, or appends a slot with newSlotId. In an elided slot only the given part
+  // (default: the last one) is replaced, and the slot splits back apart.
+  | { type: 'ADD_WORD'; word: Word; newSlotId: string; part?: number }
+  // betweenParts: the slot is dropped inside the elided slot at `to`, splitting it around the moved slot
+  | { type: 'MOVE_SLOT'; from: number; to: number; betweenParts?: boolean }
+  | { type: 'REMOVE_SLOT'; slotId: string; part?: number } // With part, removes one word of an elided slot
+  | { type: 'LOAD_SENTENCE'; slots: SentenceSlot[] } // Typed or spoken sentence replaces the slab
+  | { type: 'MERGE_START' }
+  | { type: 'MERGE_APPLY' }
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'VALIDATE_START' }
+  | { type: 'VALIDATE_SUCCESS'; result: ValidationResult; packChallenge?: string | null }
+  | { type: 'VALIDATE_FAILURE'; error: AiCallError }
+  | { type: 'TICK' }
+  | { type: 'NEXT'; round: RoundSetup }
+  | { type: 'ACCEPT_CHALLENGE'; round: RoundSetup }
+  | { type: 'END_GAME' };
+
+// activeChallenge: the first sentence answers this question (a duel's challenge prompt)
+export const createGameState = (settings: GameSettings, activeChallenge: string | null = null): GameMachineState => ({
+  settings,
+  game: {
+    score: 0,
+    sentencesCompleted: 0,
+    timeLeft: BLITZ_START_SECONDS,
+    isPlaying: true,
+    isGameOver: false,
+  },
+  slots: [],
+  activeSlotId: null,
+  isAddingNew: false,
+  mergingIndex: null,
+  validation: null,
+  isValidating: false,
+  judgeError: null,
+  pendingChallenge: null,
+  activeChallenge,
+  questionHistory: [],
+  reviewingCard: null,
+  undoStack: [],
+  redoStack: [],
+  keptApart: [],
+});
+
+// --- Selectors ---
+
+// Blocks can be added, removed and reordered until the sentence is judged, except mid-merge
+export const canEditSlots = (state: GameMachineState): boolean => !state.validation && state.mergingIndex === null;
+
+// After a verdict only the slots the judge flagged can be opened (to fix them)
+export const canOpenSlot = (state: GameMachineState, index: number): boolean => {
+  if (state.mergingIndex !== null) return false;
+  if (!state.validation) return true;
+  return (state.validation.errors || []).some(error => error.slotIndices.includes(index));
+};
+
+// Identifies two neighbouring slots holding particular words (a new word in either slot is a new pair)
+const pairKey = (current: SentenceSlot, next: SentenceSlot) => `${current.id}:${current.value?.id}|${next.id}:${next.value?.id}`;
+
+// The elision the slab should merge next, skipping pairs the player un-merged
+export const nextElision = (state: GameMachineState) =>
+  findElisionCandidate(state.slots, (current, next) => state.keptApart.includes(pairKey(current, next)));
+
+// Undo and redo work while the sentence is being built, not once it has been judged
+export const canUndo = (state: GameMachineState): boolean => canEditSlots(state) && !state.isValidating && state.undoStack.length > 0;
+export const canRedo = (state: GameMachineState): boolean => canEditSlots(state) && !state.isValidating && state.redoStack.length > 0;
+
+// Points a verdict is worth right now (0 unless it's correct)
+export const pointsForVerdict = (state: GameMachineState, result: ValidationResult): number =>
+  result.isValid ? calculateSentencePoints(state.slots.length, !!state.activeChallenge, state.settings.difficulty) : 0;
+
+// A judged sentence on the score sheet: correct ones add their points, and in Blitz buy time back.
+// Duels keep one sheet per player and credit them with this too.
+export const creditVerdict = (game: GameState, settings: GameSettings, result: ValidationResult, points: number, wasChallenge: boolean): GameState => {
+  if (!result.isValid) return game;
+  const bonusSeconds = wasChallenge ? BLITZ_CHALLENGE_TIME_REWARD : BLITZ_TIME_REWARD;
+  return {
+    ...game,
+    score: game.score + points,
+    sentencesCompleted: game.sentencesCompleted + 1,
+    timeLeft: settings.mode === GameMode.BLITZ ? game.timeLeft + bonusSeconds : game.timeLeft,
+  };
+};
+
+// --- Transitions ---
+
+const endGame = (state: GameMachineState): GameMachineState => ({
+  ...state,
+  game: { ...state.game, isGameOver: true, isPlaying: false },
+});
+
+// Replaces the sentence, remembering the old one for undo. Contractions the edit made wrong
+// (a new word after "au" or "mon") are undone on the spot and re-evaluated by the next merge.
+const editSlots = (state: GameMachineState, slots: SentenceSlot[]): GameMachineState => ({
+  ...state,
+  slots: releaseStaleContractions(slots),
+  undoStack: [...state.undoStack.slice(-(UNDO_LIMIT - 1)), state.slots],
+  redoStack: [],
+});
+
+// Steps through the history. Merges are steps of their own, so pairs that could elide in a restored
+// sentence are kept apart rather than merged again behind the player's back.
+const restoreSlots = (state: GameMachineState, slots: SentenceSlot[]): GameMachineState => {
+  const keptApart = [...state.keptApart];
+  for (let i = 0; i < slots.length - 1; i++) {
+    const key = pairKey(slots[i], slots[i + 1]);
+    if (!keptApart.includes(key) && findElisionCandidate([slots[i], slots[i + 1]])) keptApart.push(key);
+  }
+  return { ...state, slots, keptApart, activeSlotId: null };
+};
+
+const startRound = (state: GameMachineState, round: RoundSetup): GameMachineState => {
+  if (!round) return endGame(state);
+  return {
+    ...state,
+    slots: round.slots,
+    reviewingCard: round.reviewingCard,
+    undoStack: [],
+    redoStack: [],
+    keptApart: [],
+    activeSlotId: null,
+    isAddingNew: false,
+    mergingIndex: null,
+    validation: null,
+    judgeError: null,
+  };
+};
+
+const applyVerdict = (state: GameMachineState, result: ValidationResult, packChallenge: string | null): GameMachineState => {
+  const judged: GameMachineState = { ...state, isValidating: false, validation: result, activeSlotId: null, isAddingNew: false };
+  if (!result.isValid) return judged;
+
+  const followUpQuestion = result.followUpQuestion || packChallenge;
+  return {
+    ...judged,
+    game: creditVerdict(state.game, state.settings, result, pointsForVerdict(state, result), !!state.activeChallenge),
+    pendingChallenge: followUpQuestion || null,
+    questionHistory: followUpQuestion
+      ? [...state.questionHistory.slice(-(QUESTION_HISTORY_SIZE - 1)), followUpQuestion]
+      : state.questionHistory,
+  };
+};
+
+export const gameReducer = (state: GameMachineState, event: GameEvent): GameMachineState => {
+  switch (event.type) {
+    case 'START_ROUND':
+      return startRound(state, event.round);
+
+    case 'SELECT_SLOT': {
+      const index = state.slots.findIndex(s => s.id === event.slotId);
+      if (index === -1 || !canOpenSlot(state, index)) return state;
+      return { ...state, activeSlotId: state.activeSlotId === event.slotId ? null : event.slotId, isAddingNew: false };
+    }
+
+    case 'OPEN_ADD':
+      if (!canEditSlots(state)) return state;
+      return { ...state, isAddingNew: true, activeSlotId: null };
+
+    case 'CLOSE_PICKER':
+      return { ...state, activeSlotId: null, isAddingNew: false };
+
+    case 'ADD_WORD': {
+      const { word } = event;
+      let slots = state.slots;
+      if (state.activeSlotId) {
+        const place = (slot: SentenceSlot): SentenceSlot => ({ ...slot, value: word, type: word.type, unknown: false });
+        slots = slots.flatMap(slot => {
+          if (slot.id !== state.activeSlotId) return [slot];
+          if (!slot.parts) return [place(slot)];
+          const part = event.part ?? slot.parts.length - 1;
+          return slot.parts.map((p, i) => i === part ? place(p) : p);
+        });
+      } else if (state.isAddingNew) {
+        slots = [...slots, { id: event.newSlotId, type: word.type, value: word, placeholder: word.type }];
+      } else {
+        return state;
+      }
+      // Fixing a flagged slot sends the sentence back to the builder for another check
+      return { ...editSlots(state, slots), activeSlotId: null, validation: null };
+    }
+
+    case 'MOVE_SLOT': {
+      const { from, to } = event;
+      if (!canEditSlots(state) || from === to || to < 0 || to >= state.slots.length) return state;
+      const slots = [...state.slots];
+      const target = slots[to];
+      const [moved] = slots.splice(from, 1);
+      if (event.betweenParts && target.parts && target.parts.length > 1) {
+        const [first, ...rest] = target.parts;
+        slots.splice(slots.indexOf(target), 1, first, moved, ...rest);
+      } else {
+        slots.splice(to, 0, moved);
+      }
+      return editSlots(state, slots);
+    }
+
+    case 'REMOVE_SLOT': {
+      if (!canEditSlots(state)) return state;
+      const { slotId, part } = event;
+      const slots = state.slots.flatMap(slot => {
+        if (slot.id !== slotId) return [slot];
+        return part === undefined ? [] : unmergeSlot(slot).filter((_, i) => i !== part);
+      });
+      return {
+        ...editSlots(state, slots),
+        activeSlotId: state.activeSlotId === slotId ? null : state.activeSlotId,
+      };
+    }
+
+    case 'LOAD_SENTENCE':
+      return { ...editSlots(state, event.slots), activeSlotId: null, isAddingNew: false, validation: null, judgeError: null };
+
+    // Elisions merge in two steps so the slab can animate the pair snapping together
+    case 'MERGE_START': {
+      if (state.mergingIndex !== null) return state;
+      const candidate = nextElision(state);
+      return candidate ? { ...state, mergingIndex: candidate.index } : state;
+    }
+
+    case 'MERGE_APPLY': {
+      if (state.mergingIndex === null) return state;
+      // The slab may have changed during the animation: only merge if the same pair still elides
+      const candidate = nextElision(state);
+      if (!candidate || candidate.index !== state.mergingIndex) return { ...state, mergingIndex: null };
+      const slots = [...state.slots];
+      slots.splice(candidate.index, candidate.length, candidate.mergedSlot);
+      return { ...editSlots(state, slots), mergingIndex: null };
+    }
+
+    case 'UNDO': {
+      if (!canUndo(state)) return state;
+      const previous = state.undoStack[state.undoStack.length - 1];
+      return {
+        ...restoreSlots(state, previous),
+        undoStack: state.undoStack.slice(0, -1),
+        redoStack: [...state.redoStack, state.slots],
+      };
+    }
+
+    case 'REDO': {
+      if (!canRedo(state)) return state;
+      const next = state.redoStack[state.redoStack.length - 1];
+      return {
+        ...restoreSlots(state, next),
+        undoStack: [...state.undoStack, state.slots],
+        redoStack: state.redoStack.slice(0, -1),
+      };
+    }
+
+    case 'VALIDATE_START':
+      if (state.slots.length === 0) return state;
+      return { ...state, isValidating: true, judgeError: null };
+
+    case 'VALIDATE_SUCCESS':
+      return applyVerdict(state, event.result, event.packChallenge || null);
+
+    case 'VALIDATE_FAILURE':
+      // A cancelled check (superseded or abandoned) isn't worth telling the player about
+      return { ...state, isValidating: false, judgeError: event.error.kind === 'cancelled' ? state.judgeError : event.error };
+
+    // One second of the Blitz clock; it stands still while the judge is working
+    case 'TICK': {
+      if (state.settings.mode !== GameMode.BLITZ || state.game.isGameOver || state.isValidating) return state;
+      if (state.game.timeLeft <= 1) return endGame({ ...state, game: { ...state.game, timeLeft: 0 } });
+      return { ...state, game: { ...state.game, timeLeft: state.game.timeLeft - 1 } };
+    }
+
+    case 'NEXT': {
+      const next: GameMachineState = { ...state, activeChallenge: null, pendingChallenge: null, judgeError: null };
+      if (state.settings.mode === GameMode.STANDARD && state.game.sentencesCompleted >= STANDARD_ROUND_LIMIT) {
+        return endGame(next);
+      }
+      return startRound(next, event.round);
+    }
+
+    case 'ACCEPT_CHALLENGE':
+      if (!state.pendingChallenge) return state;
+      return startRound({ ...state, activeChallenge: state.pendingChallenge, pendingChallenge: null }, event.round);
+
+    case 'END_GAME':
+      return endGame(state);
+
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,54 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { createJsonProvider, JsonSchema, LlmConfig, LlmProvider } from "./llmProvider";
+
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  boolean: Type.BOOLEAN,
+  integer: Type.INTEGER,
+  number: Type.NUMBER,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: GEMINI_TYPES[schema.type],
+  ...(schema.description ? { description: schema.description } : {}),
+  ...(schema.enum ? { enum: schema.enum } : {}),
+  ...(schema.properties
+    ? {
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+        propertyOrdering: Object.keys(schema.properties), // Gemini otherwise writes keys alphabetically
+      }
+    : {}),
+  ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+  ...(schema.required ? { required: schema.required } : {}),
+});
+
+export const createGeminiProvider = ({ apiKey, model }: LlmConfig['gemini']): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return createJsonProvider('gemini', async ({ prompt, schema, temperature, onText }, signal) => {
+    const params = {
+      model,
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(schema),
+        temperature,
+        abortSignal: signal,
+      }
+    };
+
+    if (!onText) {
+      const response = await ai.models.generateContent(params);
+      return JSON.parse(response.text || "{}");
+    }
+
+    let text = '';
+    for await (const chunk of await ai.models.generateContentStream(params)) {
+      text += chunk.text || '';
+      onText(text);
+    }
+    return JSON.parse(text || "{}");
+  });
+};
@@ -0,0 +1,398 @@
+import { DifficultyProfile, ErrorCategory, GrammarError, PartOfSpeech, SentenceSlot, Tense, ValidationResult } from "../types";
+import { applyFrenchElision } from "../constants";
+import { startsWithVowelSound } from "./contractionService";
+
+// Offline grammar engine. Works directly on the slab (SentenceSlot[]) and the
+// tags already carried by each Word, so it needs no network and no API key.
+// It is used as the fallback judge when no key is configured, and as a fast
+// pre-check before we spend a Gemini call on a sentence with obvious mistakes.
+
+type Gender = 'm' | 'f';
+type GrammaticalNumber = 's' | 'pl';
+
+interface Token {
+  text: string;
+  type: PartOfSpeech;
+  tags: string[];
+  translation: string;
+  slotIndex: number;
+  joinNext?: boolean; // Elided article (l') glues to the following token
+}
+
+interface GrammarIssue {
+  category: ErrorCategory;
+  severity: 'major' | 'minor';
+  tokenIndices: number[]; // Tokens involved, mapped back to slot indices in the result
+  message: string;
+  fix?: { tokenIndex: number; text: string };
+}
+
+const PERSONS = ['Je', 'Tu', 'Il', 'Elle', 'Nous', 'Vous', 'Ils', 'Elles'];
+
+// Determiners: gender/number they require and the "family" used to find a replacement
+const DETERMINERS: Record<string, { gender?: Gender; number: GrammaticalNumber; family: string }> = {
+  'le': { gender: 'm', number: 's', family: 'def' },
+  'la': { gender: 'f', number: 's', family: 'def' },
+  "l'": { number: 's', family: 'def' },
+  'les': { number: 'pl', family: 'def' },
+  'un': { gender: 'm', number: 's', family: 'indef' },
+  'une': { gender: 'f', number: 's', family: 'indef' },
+  'des': { number: 'pl', family: 'indef' },
+  'mon': { gender: 'm', number: 's', family: 'mon' },
+  'ma': { gender: 'f', number: 's', family: 'mon' },
+  'mes': { number: 'pl', family: 'mon' },
+  'ton': { gender: 'm', number: 's', family: 'ton' },
+  'ta': { gender: 'f', number: 's', family: 'ton' },
+  'tes': { number: 'pl', family: 'ton' },
+  'son': { gender: 'm', number: 's', family: 'son' },
+  'sa': { gender: 'f', number: 's', family: 'son' },
+  'ses': { number: 'pl', family: 'son' },
+  'notre': { number: 's', family: 'notre' },
+  'nos': { number: 'pl', family: 'notre' },
+  'votre': { number: 's', family: 'votre' },
+  'vos': { number: 'pl', family: 'votre' },
+  'leur': { number: 's', family: 'leur' },
+  'leurs': { number: 'pl', family: 'leur' },
+};
+
+const AVOIR_FORMS: Record<string, string> = {
+  Je: 'ai', Tu: 'as', Il: 'a', Elle: 'a', Nous: 'avons', Vous: 'avez', Ils: 'ont', Elles: 'ont',
+};
+
+const ETRE_FORMS: Record<string, string> = {
+  Je: 'suis', Tu: 'es', Il: 'est', Elle: 'est', Nous: 'sommes', Vous: 'êtes', Ils: 'sont', Elles: 'sont',
+};
+
+// Participles of verbs that build the passé composé with être (DR MRS VANDERTRAMP)
+const ETRE_PARTICIPLES = [
+  'allé', 'venu', 'arrivé', 'parti', 'entré', 'sorti', 'monté', 'descendu', 'né', 'mort',
+  'resté', 'tombé', 'retourné', 'devenu', 'revenu', 'rentré', 'apparu',
+];
+
+// Elided prefixes found in merged slots (e.g. "J'ai") and the word they stand for
+const ELIDED_PREFIXES: Record<string, { text: string; type: PartOfSpeech }> = {
+  'j': { text: 'je', type: PartOfSpeech.SUBJECT },
+  'l': { text: "l'", type: PartOfSpeech.ARTICLE },
+  'n': { text: 'ne', type: PartOfSpeech.NEGATION },
+  's': { text: 'si', type: PartOfSpeech.CONNECTOR },
+  'd': { text: 'de', type: PartOfSpeech.PREPOSITION },
+  'qu': { text: 'que', type: PartOfSpeech.CONNECTOR },
+  'c': { text: 'ce', type: PartOfSpeech.SUBJECT },
+  'm': { text: 'me', type: PartOfSpeech.OBJECT },
+  't': { text: 'te', type: PartOfSpeech.OBJECT },
+};
+
+const isVerbType = (type: PartOfSpeech) => type === PartOfSpeech.VERB || type === PartOfSpeech.VERB_AUX;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Restores the original casing of an elided word ("J" + "je" -> "Je")
+const matchCase = (original: string, replacement: string) =>
+  original.charAt(0) === original.charAt(0).toUpperCase() ? capitalize(replacement) : replacement;
+
+// Flattens the slab into word tokens, splitting visually merged slots back apart
+const tokenize = (slots: SentenceSlot[]): Token[] => {
+  const tokens: Token[] = [];
+  slots.forEach((slot, slotIndex) => {
+    const word = slot.value;
+    if (!word) return;
+
+    const apostrophe = word.text.indexOf("'");
+    const prefixKey = word.text.slice(0, apostrophe).toLowerCase();
+    if (apostrophe > 0 && ELIDED_PREFIXES[prefixKey]) {
+      const elided = ELIDED_PREFIXES[prefixKey];
+      const [firstTranslation, restTranslation = ''] = word.translation.split(' + ');
+      const rest = word.text.slice(apostrophe + 1);
+      tokens.push({
+        text: elided.text.endsWith("'") ? word.text.slice(0, apostrophe + 1) : matchCase(word.text, elided.text),
+        type: elided.type,
+        tags: [],
+        translation: firstTranslation,
+        slotIndex,
+        joinNext: elided.text.endsWith("'"),
+      });
+      if (rest) {
+        tokens.push({ text: rest, type: slot.type, tags: word.tags || [], translation: restTranslation, slotIndex });
+      }
+      return;
+    }
+
+    tokens.push({ text: word.text, type: word.type, tags: word.tags || [], translation: word.translation, slotIndex });
+  });
+  return tokens;
+};
+
+const getNounGender = (token: Token): Gender | null => {
+  if (token.tags.includes('f') || token.tags.includes('feminine')) return 'f';
+  if (token.tags.includes('m') || token.tags.includes('masculine')) return 'm';
+  return null;
+};
+
+const getNumber = (token: Token): GrammaticalNumber => token.tags.includes('plural') ? 'pl' : 's';
+
+const findDeterminer = (family: string, gender: Gender, number: GrammaticalNumber): string | null => {
+  const entries = Object.entries(DETERMINERS).filter(([, d]) => d.family === family && d.number === number);
+  const match = entries.find(([, d]) => d.gender === gender) || entries.find(([, d]) => !d.gender);
+  return match ? match[0] : null;
+};
+
+// Works out who the subject is: a pronoun, or a noun phrase standing in for il/elle/ils/elles
+const findSubject = (tokens: Token[], verbIndex: number): { person: string; index: number } | null => {
+  for (let i = verbIndex - 1; i >= 0; i--) {
+    const token = tokens[i];
+    if (token.type === PartOfSpeech.SUBJECT) {
+      const person = capitalize(token.text.toLowerCase());
+      return PERSONS.includes(person) ? { person, index: i } : null;
+    }
+    if (token.type === PartOfSpeech.NOUN) {
+      const plural = getNumber(token) === 'pl';
+      const feminine = getNounGender(token) === 'f';
+      const person = feminine ? (plural ? 'Elles' : 'Elle') : (plural ? 'Ils' : 'Il');
+      return { person, index: i };
+    }
+  }
+  return null;
+};
+
+const checkDeterminers = (tokens: Token[]): GrammarIssue[] => {
+  const issues: GrammarIssue[] = [];
+  tokens.forEach((token, i) => {
+    if (token.type !== PartOfSpeech.ARTICLE && token.type !== PartOfSpeech.POSSESSIVE) return;
+    const determiner = DETERMINERS[token.text.toLowerCase()];
+    if (!determiner) return;
+
+    // Skip over adjectives placed before the noun (un petit chat)
+    let j = i + 1;
+    while (j < tokens.length && tokens[j].type === PartOfSpeech.ADJECTIVE) j++;
+    const noun = tokens[j];
+    if (!noun || noun.type !== PartOfSpeech.NOUN) return;
+
+    const gender = getNounGender(noun);
+    const number = getNumber(noun);
+    // mon/ton/son are used before feminine nouns starting with a vowel sound (mon amie, but ma haine)
+    const euphonic = ['mon', 'ton', 'son'].includes(token.text.toLowerCase()) && startsWithVowelSound(tokens[i + 1].text);
+
+    const genderMismatch = gender && determiner.gender && determiner.gender !== gender && !euphonic;
+    const numberMismatch = determiner.number !== number;
+    if (!genderMismatch && !numberMismatch) return;
+
+    const expected = gender ? findDeterminer(determiner.family, gender, number) : null;
+    issues.push({
+      category: 'agreement',
+      severity: 'major',
+      tokenIndices: [i, j],
+      message: `"${token.text}" does not agree with "${noun.text}" (${gender === 'f' ? 'feminine' : 'masculine'}, ${number === 'pl' ? 'plural' : 'singular'}).`
+        + (expected ? ` Use "${expected}".` : ''),
+      fix: expected ? { tokenIndex: i, text: matchCase(token.text, expected) } : undefined,
+    });
+  });
+  return issues;
+};
+
+const checkAdjectives = (tokens: Token[]): GrammarIssue[] => {
+  const issues: GrammarIssue[] = [];
+  tokens.forEach((token, i) => {
+    if (token.type !== PartOfSpeech.ADJECTIVE) return;
+    const hasGender = token.tags.includes('feminine') || token.tags.includes('masculine');
+    if (!hasGender) return;
+
+    // Adjectives usually follow the noun, a few (petit, grand, beau) precede it
+    const noun = [tokens[i - 1], tokens[i + 1]].find(t => t && t.type === PartOfSpeech.NOUN);
+    if (!noun) return;
+
+    const nounGender = getNounGender(noun);
+    const adjGender: Gender = token.tags.includes('feminine') ? 'f' : 'm';
+    if ((nounGender && nounGender !== adjGender) || getNumber(noun) !== getNumber(token)) {
+      issues.push({
+        category: 'agreement',
+        severity: 'minor',
+        tokenIndices: [i, tokens.indexOf(noun)],
+        message: `The adjective "${token.text}" must match "${noun.text}" in gender and number.`,
+      });
+    }
+  });
+  return issues;
+};
+
+const checkSubjectVerb = (tokens: Token[]): GrammarIssue[] => {
+  const verbIndex = tokens.findIndex(t => isVerbType(t.type));
+  if (verbIndex === -1) {
+    const hasSubject = tokens.some(t => t.type === PartOfSpeech.SUBJECT);
+    return hasSubject
+      ? [{ category: 'word_order', severity: 'major', tokenIndices: [], message: 'The sentence needs a conjugated verb after the subject.' }]
+      : [];
+  }
+
+  const verb = tokens[verbIndex];
+  const verbPersons = verb.tags.filter(tag => PERSONS.includes(tag));
+  const subject = findSubject(tokens, verbIndex);
+  if (!subject || verbPersons.length === 0 || verbPersons.includes(subject.person)) return [];
+
+  const lowerVerb = verb.text.toLowerCase();
+  const table = Object.values(AVOIR_FORMS).includes(lowerVerb) ? AVOIR_FORMS
+    : Object.values(ETRE_FORMS).includes(lowerVerb) ? ETRE_FORMS
+    : null;
+  const expected = table ? table[subject.person] : null;
+
+  return [{
+    category: 'agreement',
+    severity: 'major',
+    tokenIndices: [subject.index, verbIndex],
+    message: `"${verb.text}" is conjugated for ${verbPersons.join('/')}, but the subject is "${tokens[subject.index].text}".`
+      + (expected ? ` Use "${expected}".` : ''),
+    fix: expected ? { tokenIndex: verbIndex, text: expected } : undefined,
+  }];
+};
+
+const checkPasseCompose = (tokens: Token[]): GrammarIssue[] => {
+  const auxIndex = tokens.findIndex(t => {
+    const lower = t.text.toLowerCase();
+    return t.type === PartOfSpeech.VERB_AUX && (Object.values(AVOIR_FORMS).includes(lower) || Object.values(ETRE_FORMS).includes(lower));
+  });
+  const ppIndex = tokens.findIndex(t => t.type === PartOfSpeech.VERB_PP);
+
+  if (auxIndex === -1 || ppIndex === -1) {
+    return [{
+      category: 'tense',
+      severity: 'major',
+      tokenIndices: [auxIndex, ppIndex].filter(i => i !== -1),
+      message: auxIndex === -1
+        ? 'The passé composé needs an auxiliary (avoir or être) conjugated for the subject.'
+        : 'The passé composé needs a past participle after the auxiliary.',
+    }];
+  }
+  if (ppIndex < auxIndex) {
+    return [{
+      category: 'word_order',
+      severity: 'major',
+      tokenIndices: [ppIndex, auxIndex],
+      message: 'The past participle comes after the auxiliary (e.g. "J\'ai mangé").',
+    }];
+  }
+
+  const aux = tokens[auxIndex];
+  const pp = tokens[ppIndex];
+  const usesEtre = Object.values(ETRE_FORMS).includes(aux.text.toLowerCase());
+  const baseParticiple = pp.text.toLowerCase().replace(/e?s?$/, '');
+  const needsEtre = ETRE_PARTICIPLES.includes(baseParticiple) || ETRE_PARTICIPLES.includes(pp.text.toLowerCase());
+  const subject = findSubject(tokens, auxIndex);
+
+  if (usesEtre !== needsEtre) {
+    const table = needsEtre ? ETRE_FORMS : AVOIR_FORMS;
+    const expected = subject ? table[subject.person] : null;
+    return [{
+      category: 'auxiliary',
+      severity: 'major',
+      tokenIndices: [auxIndex, ppIndex],
+      message: `"${pp.text}" takes ${needsEtre ? 'être' : 'avoir'} in the passé composé, not ${usesEtre ? 'être' : 'avoir'}.`
+        + (expected ? ` Use "${expected}".` : ''),
+      fix: expected ? { tokenIndex: auxIndex, text: expected } : undefined,
+    }];
+  }
+
+  // With être the participle agrees with the subject (elle est allée)
+  if (usesEtre && subject && ['Il', 'Elle', 'Ils', 'Elles'].includes(subject.person)) {
+    const expected = baseParticiple
+      + (subject.person.startsWith('Elle') ? 'e' : '')
+      + (subject.person.endsWith('s') ? 's' : '');
+    if (pp.text.toLowerCase() !== expected) {
+      return [{
+        category: 'agreement',
+        severity: 'minor',
+        tokenIndices: [ppIndex],
+        message: `With être, the participle agrees with the subject: "${expected}".`,
+        fix: { tokenIndex: ppIndex, text: expected },
+      }];
+    }
+  }
+
+  return [];
+};
+
+const checkImparfait = (tokens: Token[]): GrammarIssue[] => {
+  const verbIndex = tokens.findIndex(t => isVerbType(t.type));
+  if (verbIndex === -1) return [];
+  const verb = tokens[verbIndex];
+  if (verb.tags.includes('imparfait')) return [];
+
+  const hasParticiple = tokens.some(t => t.type === PartOfSpeech.VERB_PP);
+  return [{
+    category: 'tense',
+    severity: 'major',
+    tokenIndices: [verbIndex],
+    message: hasParticiple
+      ? `"${verb.text}" + participle is the passé composé. The imparfait uses a single verb ending in -ais/-ait/-ions/-iez/-aient.`
+      : `"${verb.text}" is not in the imparfait. Pick the imparfait form (e.g. "je mangeais", "il était").`,
+  }];
+};
+
+const buildSentence = (tokens: Token[]): string => {
+  const raw = tokens.map(t => t.text + (t.joinNext ? '' : ' ')).join('').trim();
+  return applyFrenchElision(raw);
+};
+
+// Converts internal issues to the ValidationResult error taxonomy (token positions -> slot indices)
+const toGrammarErrors = (issues: GrammarIssue[], tokens: Token[]): GrammarError[] =>
+  issues.map(issue => ({
+    category: issue.category,
+    slotIndices: Array.from(new Set(issue.tokenIndices.map(i => tokens[i].slotIndex))),
+    expected: issue.fix?.text || '',
+    message: issue.message,
+  }));
+
+const buildGloss = (tokens: Token[]): string =>
+  tokens
+    .map(t => t.translation.replace(/\s*\(.*?\)/g, '').trim())
+    .filter(Boolean)
+    .join(' ');
+
+export const checkGrammar = (
+  slots: SentenceSlot[],
+  tense: Tense,
+  strictness: DifficultyProfile['validationStrictness'] = 'standard'
+): ValidationResult => {
+  const tokens = tokenize(slots);
+  const sentence = buildSentence(tokens);
+
+  const issues: GrammarIssue[] = [
+    ...checkSubjectVerb(tokens),
+    ...checkDeterminers(tokens),
+    ...checkAdjectives(tokens),
+    ...(tense === Tense.PASSE_COMPOSE ? checkPasseCompose(tokens) : []),
+    ...(tense === Tense.IMPARFAIT ? checkImparfait(tokens) : []),
+  ];
+
+  if (issues.length === 0) {
+    return {
+      isValid: true,
+      correction: sentence,
+      explanation: "No agreement or tense-structure problems found. Bien joué !",
+      translation: buildGloss(tokens),
+      feedbackType: 'perfect',
+      errors: [],
+    };
+  }
+
+  const corrected = tokens.map((t, i) => {
+    const issue = issues.find(iss => iss.fix?.tokenIndex === i);
+    return issue ? { ...t, text: issue.fix!.text } : t;
+  });
+
+  // A major issue always fails. Minor slips (agreement the rules can only guess at) depend on strictness:
+  // - lenient: valid, marked minor_error
+  // - standard: invalid minor_error; with an AI judge configured it gets the final say (isSettledLocally)
+  // - strict: grammar_fail, like a major issue
+  const hasMajor = issues.some(i => i.severity === 'major');
+  return {
+    isValid: !hasMajor && strictness === 'lenient',
+    correction: buildSentence(corrected),
+    explanation: issues.map(i => i.message).join(' '),
+    translation: buildGloss(tokens),
+    feedbackType: hasMajor || strictness === 'strict' ? 'grammar_fail' : 'minor_error',
+    errors: toGrammarErrors(issues, tokens),
+  };
+};
+
+// A local verdict that needs no AI judge: a definite grammar failure. Valid sentences and
+// standard-strictness minor slips still go to the judge when one is configured.
+export const isSettledLocally = (result: ValidationResult): boolean => result.feedbackType === 'grammar_fail';
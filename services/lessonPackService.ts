@@ -0,0 +1,325 @@
+import { parse as parseYaml } from "yaml";
+import { Difficulty, GameSettings, LessonPack, LessonPackWord, ModelSentence, PartOfSpeech, Tense, VerbFormOverrides, Word } from "../types";
+import { createWord } from "../constants";
+import { generateWordPack } from "./geminiService";
+import { AiCallOptions } from "./llmProvider";
+
+// Teacher-authored lesson packs: validated JSON or YAML files that become selectable topics.
+// The file format is documented in README.md ("Lesson packs").
+// AI-generated custom topics are cached in the same store so they can be reused, edited and shared.
+
+const STORAGE_KEY = 'hexagrammar.packs';
+const PERSON_COUNT = 6;
+const MAX_CACHED_AI_PACKS = 20; // Unpinned AI packs beyond this are dropped, least recently used first
+
+export interface PackValidation {
+  pack: LessonPack | null; // null whenever errors is non-empty
+  errors: string[];
+}
+
+// --- Storage ---
+
+export const loadPacks = (): LessonPack[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Lesson pack load error:", error);
+    return [];
+  }
+};
+
+const savePacks = (packs: LessonPack[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(packs));
+  } catch (error) {
+    console.error("Lesson pack save error:", error);
+  }
+};
+
+export const getPack = (id: string): LessonPack | null => loadPacks().find(p => p.id === id) || null;
+
+// Importing a pack with an id that already exists replaces it (teachers re-sharing an updated file)
+export const savePack = (pack: LessonPack) => {
+  savePacks([...loadPacks().filter(p => p.id !== pack.id), pack]);
+};
+
+export const deletePack = (id: string) => {
+  savePacks(loadPacks().filter(p => p.id !== id));
+};
+
+export const updatePack = (id: string, changes: Partial<LessonPack>) => {
+  savePacks(loadPacks().map(p => (p.id === id ? { ...p, ...changes, id } : p)));
+};
+
+export const touchPack = (id: string) => updatePack(id, { lastUsedAt: Date.now() });
+
+// Only one class pack at a time; pass null to unpin
+export const pinPack = (id: string | null) => {
+  savePacks(loadPacks().map(p => ({ ...p, pinned: p.id === id })));
+};
+
+export const getPinnedPack = (): LessonPack | null => loadPacks().find(p => p.pinned) || null;
+
+// --- AI word pack cache ---
+
+// "  Star Wars " and "star wars" share a cache entry
+export const normalizeTopicKey = (topic: string): string =>
+  topic.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ');
+
+export const findCachedPack = (customTopic: string): LessonPack | null => {
+  const key = normalizeTopicKey(customTopic);
+  return loadPacks().find(p => p.topicKey === key) || null;
+};
+
+export const cacheGeneratedPack = (customTopic: string, words: LessonPackWord[]): LessonPack => {
+  const now = Date.now();
+  const pack: LessonPack = {
+    id: `ai-${now}-${Math.random().toString(36).substr(2, 6)}`,
+    version: 1,
+    title: customTopic.trim(),
+    words,
+    source: 'ai',
+    topicKey: normalizeTopicKey(customTopic),
+    lastUsedAt: now,
+  };
+
+  const others = loadPacks().filter(p => p.topicKey !== pack.topicKey);
+  const evictable = others
+    .filter(p => p.source === 'ai' && !p.pinned)
+    .sort((a, b) => (b.lastUsedAt || 0) - (a.lastUsedAt || 0));
+  const evicted = new Set(evictable.slice(MAX_CACHED_AI_PACKS - 1).map(p => p.id));
+
+  savePacks([...others.filter(p => !evicted.has(p.id)), pack]);
+  return pack;
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+// Accepts enum values ("Noun", "Passé Composé") or enum keys ("NOUN", "passe_compose"), any case
+const resolveEnum = <T extends string>(enumObject: Record<string, T>, raw: unknown): T | null => {
+  if (typeof raw !== 'string') return null;
+  const lower = raw.trim().toLowerCase();
+  const entry = Object.entries(enumObject).find(([key, value]) => key.toLowerCase() === lower || value.toLowerCase() === lower);
+  return entry ? entry[1] : null;
+};
+
+const validateForms = (raw: unknown, where: string, errors: string[]): VerbFormOverrides | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    errors.push(`${where}.forms must be an object with "present", "imparfait" and/or "pastParticiple".`);
+    return undefined;
+  }
+
+  const forms: VerbFormOverrides = {};
+  (['present', 'imparfait'] as const).forEach(key => {
+    const list = raw[key];
+    if (list === undefined) return;
+    if (!Array.isArray(list) || list.length !== PERSON_COUNT || !list.every(isNonEmptyString)) {
+      errors.push(`${where}.forms.${key} must list exactly ${PERSON_COUNT} forms (je, tu, il, nous, vous, ils).`);
+      return;
+    }
+    forms[key] = list.map(f => f.trim());
+  });
+  if (raw.pastParticiple !== undefined) {
+    if (isNonEmptyString(raw.pastParticiple)) forms.pastParticiple = raw.pastParticiple.trim();
+    else errors.push(`${where}.forms.pastParticiple must be a non-empty string.`);
+  }
+  return forms;
+};
+
+const validateWord = (raw: unknown, index: number, errors: string[]): LessonPackWord | null => {
+  if (!isObject(raw)) {
+    errors.push(`words[${index}] must be an object like { "text": "pomme", "type": "Noun", "translation": "apple", "gender": "f" }.`);
+    return null;
+  }
+
+  const where = isNonEmptyString(raw.text) ? `words[${index}] ("${raw.text}")` : `words[${index}]`;
+  const errorCount = errors.length;
+
+  if (!isNonEmptyString(raw.text)) errors.push(`${where} is missing "text".`);
+  if (!isNonEmptyString(raw.translation)) errors.push(`${where} is missing "translation".`);
+
+  const type = resolveEnum(PartOfSpeech as Record<string, PartOfSpeech>, raw.type);
+  if (!type) {
+    errors.push(`${where} has an unknown type ${JSON.stringify(raw.type)}. Use one of: ${Object.values(PartOfSpeech).join(', ')}.`);
+  }
+
+  let gender: LessonPackWord['gender'];
+  if (raw.gender !== undefined) {
+    if (raw.gender === 'm' || raw.gender === 'f' || raw.gender === 'mutable') gender = raw.gender;
+    else errors.push(`${where} has gender ${JSON.stringify(raw.gender)}; use "m", "f" or "mutable".`);
+  } else if (type === PartOfSpeech.NOUN) {
+    errors.push(`${where} is a noun and needs a gender: "m", "f" or "mutable".`);
+  }
+
+  if (raw.forms !== undefined && type && type !== PartOfSpeech.VERB_INF) {
+    errors.push(`${where} has "forms" but only ${PartOfSpeech.VERB_INF} words can carry verb forms.`);
+  }
+  const forms = validateForms(raw.forms, where, errors);
+
+  if (errors.length > errorCount || !type) return null;
+  return {
+    text: (raw.text as string).trim(),
+    type,
+    translation: (raw.translation as string).trim(),
+    ...(gender ? { gender } : {}),
+    ...(forms ? { forms } : {}),
+  };
+};
+
+// Checks an already-parsed JSON or YAML value. Every problem is reported, not just the first one.
+export const validateLessonPack = (raw: unknown): PackValidation => {
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    return { pack: null, errors: ['The pack must be an object with at least "title" and "words".'] };
+  }
+
+  if (raw.version !== undefined && raw.version !== 1) {
+    errors.push(`Unsupported pack version ${JSON.stringify(raw.version)} (this app reads version 1).`);
+  }
+  if (!isNonEmptyString(raw.title)) errors.push('"title" is required.');
+  if (raw.description !== undefined && typeof raw.description !== 'string') errors.push('"description" must be a string.');
+  if (raw.author !== undefined && typeof raw.author !== 'string') errors.push('"author" must be a string.');
+  if (raw.pinned !== undefined && typeof raw.pinned !== 'boolean') errors.push('"pinned" must be true or false.');
+
+  let words: LessonPackWord[] = [];
+  if (!Array.isArray(raw.words) || raw.words.length === 0) {
+    errors.push('"words" must be a non-empty list.');
+  } else {
+    words = raw.words
+      .map((w, i) => validateWord(w, i, errors))
+      .filter((w): w is LessonPackWord => w !== null);
+  }
+
+  let tenses: Tense[] | undefined;
+  if (raw.tenses !== undefined) {
+    if (!Array.isArray(raw.tenses)) {
+      errors.push('"tenses" must be a list.');
+    } else {
+      tenses = [];
+      raw.tenses.forEach((t, i) => {
+        const tense = resolveEnum(Tense as Record<string, Tense>, t);
+        if (tense) tenses!.push(tense);
+        else errors.push(`tenses[${i}] ${JSON.stringify(t)} is not a tense. Use one of: ${Object.values(Tense).join(', ')}.`);
+      });
+    }
+  }
+
+  let modelSentences: ModelSentence[] | undefined;
+  if (raw.modelSentences !== undefined) {
+    if (!Array.isArray(raw.modelSentences)) {
+      errors.push('"modelSentences" must be a list.');
+    } else {
+      modelSentences = [];
+      raw.modelSentences.forEach((s, i) => {
+        if (isObject(s) && isNonEmptyString(s.french) && isNonEmptyString(s.english)) {
+          modelSentences!.push({ french: s.french.trim(), english: s.english.trim() });
+        } else {
+          errors.push(`modelSentences[${i}] needs both "french" and "english".`);
+        }
+      });
+    }
+  }
+
+  let challenges: string[] | undefined;
+  if (raw.challenges !== undefined) {
+    if (!Array.isArray(raw.challenges) || !raw.challenges.every(isNonEmptyString)) {
+      errors.push('"challenges" must be a list of questions (strings).');
+    } else {
+      challenges = raw.challenges.map(c => c.trim());
+    }
+  }
+
+  if (errors.length > 0) return { pack: null, errors };
+
+  return {
+    pack: {
+      id: isNonEmptyString(raw.id) ? raw.id.trim() : `pack-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+      version: 1,
+      title: (raw.title as string).trim(),
+      ...(raw.description ? { description: raw.description as string } : {}),
+      ...(raw.author ? { author: raw.author as string } : {}),
+      ...(tenses && tenses.length > 0 ? { tenses } : {}),
+      words,
+      ...(modelSentences && modelSentences.length > 0 ? { modelSentences } : {}),
+      ...(challenges && challenges.length > 0 ? { challenges } : {}),
+      ...(raw.pinned === true ? { pinned: true } : {}),
+    },
+    errors: [],
+  };
+};
+
+// Parses the text of a pack file and validates it. .yaml/.yml files are read as YAML, anything else as JSON.
+export const parseLessonPack = (text: string, fileName = ''): PackValidation => {
+  const isYaml = /\.ya?ml$/i.test(fileName);
+  let raw: unknown;
+  try {
+    raw = isYaml ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    return { pack: null, errors: [`The file is not valid ${isYaml ? 'YAML' : 'JSON'}: ${(error as Error).message}`] };
+  }
+  return validateLessonPack(raw);
+};
+
+// Local bookkeeping (AI cache, last use) stays on this device. The class pin travels with the file,
+// so a teacher's exported class pack is the class pack on every student's device that imports it.
+export const exportLessonPack = (pack: LessonPack): string => {
+  const { source, topicKey, pinned, lastUsedAt, ...shared } = pack;
+  return JSON.stringify(pinned ? { ...shared, pinned } : shared, null, 2);
+};
+
+// --- Gameplay ---
+
+// Mutable nouns are tagged like the built-in pools (ami: ['m', 'mutable']): masculine base, feminine form on request
+const genderTags = (gender: LessonPackWord['gender']): string[] =>
+  gender === 'mutable' ? ['m', 'mutable'] : gender ? [gender] : [];
+
+export const packToWords = (pack: LessonPack): Word[] =>
+  pack.words.map(w => {
+    const word = createWord(w.text, w.type, w.translation, genderTags(w.gender));
+    return w.forms ? { ...word, forms: w.forms } : word;
+  });
+
+// Topic words of a custom-topic game that are already on this device: the lesson pack it plays, or the
+// AI pack saved for the same topic. null means the AI has to generate them (generateTopicWords).
+export const findTopicWords = (settings: GameSettings): Word[] | null => {
+  const pack = (settings.packId && getPack(settings.packId)) || (settings.customTopic && findCachedPack(settings.customTopic));
+  if (!pack) return null;
+  touchPack(pack.id);
+  return packToWords(pack);
+};
+
+// Asks the AI for a custom topic's words and saves them for next time. A failed or cancelled call
+// (already logged by the provider) gives no words, and the game plays the everyday ones.
+// Empty packs (offline or failed call) aren't cached so the next game tries again.
+export const generateTopicWords = async (customTopic: string, difficulty: Difficulty, options: AiCallOptions = {}): Promise<Word[]> => {
+  const outcome = await generateWordPack(customTopic, difficulty, options);
+  if (outcome.status === 'error') return [];
+  // Already trimmed, de-articled and deduplicated against COMMON_WORDS by the response checker
+  const { pack } = outcome;
+  const words: LessonPackWord[] = [
+    ...pack.nouns.map(n => ({ text: n.text, type: PartOfSpeech.NOUN, translation: n.translation, gender: n.gender })),
+    ...pack.adjectives.map(a => ({ text: a.text, type: PartOfSpeech.ADJECTIVE, translation: a.translation })),
+    ...pack.verbs.map(v => ({ text: v.text, type: PartOfSpeech.VERB_INF, translation: `to ${v.translation}` })),
+  ];
+  return words.length > 0 ? packToWords(cacheGeneratedPack(customTopic, words)) : [];
+};
+
+// A challenge question from the pack that hasn't been asked recently
+export const pickPackChallenge = (pack: LessonPack, recentQuestions: string[]): string | null => {
+  const fresh = (pack.challenges || []).filter(q => !recentQuestions.includes(q));
+  return fresh.length > 0 ? fresh[Math.floor(Math.random() * fresh.length)] : null;
+};
+
+export const pickModelSentence = (pack: LessonPack): ModelSentence | null => {
+  const sentences = pack.modelSentences || [];
+  return sentences.length > 0 ? sentences[Math.floor(Math.random() * sentences.length)] : null;
+};
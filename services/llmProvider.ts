@@ -0,0 +1,501 @@
+import { Difficulty, ERROR_CATEGORIES, SentenceSlot, Tense, Topic, ValidationResult, Word } from "../types";
+import { Checked, checkInspirationResponse, checkValidationResponse, checkWordPackResponse, PartialVerdict, readPartialVerdict, WordPackResponse } from "./responseValidators";
+import { parsePartialJson } from "./partialJson";
+
+// Provider-neutral pieces of the AI judge: the operations every backend offers, the prompts and
+// JSON schemas they share, and the player's choice of backend (persisted in localStorage).
+
+// --- Contract ---
+
+// Subset of JSON Schema understood by both Gemini (responseSchema) and OpenAI-style json_schema
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'boolean' | 'integer' | 'number';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export interface JsonRequest {
+  name: string; // Schema name, required by OpenAI-style endpoints
+  prompt: string;
+  schema: JsonSchema;
+  temperature: number;
+  onText?: (textSoFar: string) => void; // Set when the caller wants the answer streamed
+}
+
+// Raw model call: returns the parsed JSON object that matches request.schema.
+// Implementations must stop when the signal aborts (timeout or cancellation). When request.onText
+// is set they should stream, reporting the raw text received so far after each chunk.
+export type JsonGenerator = (request: JsonRequest, signal: AbortSignal) => Promise<unknown>;
+
+export interface AiCallOptions {
+  signal?: AbortSignal; // Cancels the call, e.g. when the player leaves the game
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Extra attempts after a transient failure (timeout, network, 429/5xx)
+}
+
+export type AiFailureKind = 'timeout' | 'network' | 'server' | 'cancelled' | 'invalid_response';
+
+export class AiCallError extends Error {
+  kind: AiFailureKind;
+  status?: number; // HTTP status, when the server answered
+
+  constructor(kind: AiFailureKind, message: string, status?: number) {
+    super(message);
+    this.name = 'AiCallError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+export interface ValidationCallOptions extends AiCallOptions {
+  onPartial?: (partial: PartialVerdict) => void; // Called as the verdict streams in (providers that can stream)
+}
+
+// A judge that couldn't answer is not a grammar verdict, so it gets its own outcome
+export type ValidationOutcome =
+  | { status: 'verdict'; result: ValidationResult }
+  | { status: 'error'; error: AiCallError };
+
+// Vocabulary and ideas can fail the same ways; callers pick their own fallback
+export type WordPackOutcome =
+  | { status: 'pack'; pack: WordPackResponse }
+  | { status: 'error'; error: AiCallError };
+
+export type InspirationOutcome =
+  | { status: 'inspiration'; englishSentence: string }
+  | { status: 'error'; error: AiCallError };
+
+export interface ValidationRequest {
+  sentence: string;
+  tense: Tense;
+  topic: Topic;
+  availableWords: Word[];
+  contextQuestion?: string | null;
+  previousQuestions: string[];
+  slots: SentenceSlot[];
+  difficulty: Difficulty;
+  strictness: 'lenient' | 'standard' | 'strict';
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  validateSentence: (request: ValidationRequest, options?: ValidationCallOptions) => Promise<ValidationOutcome>;
+  generateWordPack: (customTopic: string, difficulty: Difficulty, options?: AiCallOptions) => Promise<WordPackOutcome>;
+  generateInspiration: (availableWords: Word[], tense: Tense, options?: AiCallOptions) => Promise<InspirationOutcome>;
+}
+
+// --- Configuration ---
+
+export type LlmProviderId = 'gemini' | 'openai' | 'offline';
+
+export interface LlmConfig {
+  provider: LlmProviderId;
+  gemini: { apiKey: string; model: string };
+  // Any server speaking the OpenAI chat completions API (llama.cpp, Ollama, vLLM, OpenAI itself)
+  openai: { baseUrl: string; apiKey: string; model: string };
+}
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible server',
+  offline: 'Offline (no AI)',
+};
+
+const STORAGE_KEY = 'hexagrammar.llm';
+
+// Build-time defaults from .env.local (see vite.config.ts); the settings panel overrides them
+const getDefaultConfig = (): LlmConfig => {
+  const envProvider = process.env.LLM_PROVIDER as LlmProviderId | undefined;
+  const geminiKey = process.env.API_KEY || '';
+  return {
+    provider: envProvider && envProvider in LLM_PROVIDER_LABELS ? envProvider : geminiKey ? 'gemini' : 'offline',
+    gemini: { apiKey: geminiKey, model: 'gemini-3-flash-preview' },
+    openai: {
+      baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.LLM_API_KEY || '',
+      model: process.env.LLM_MODEL || 'llama3.1',
+    },
+  };
+};
+
+export const loadLlmConfig = (): LlmConfig => {
+  const defaults = getDefaultConfig();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaults;
+    const saved = JSON.parse(raw) as Partial<LlmConfig>;
+    return {
+      provider: saved.provider && saved.provider in LLM_PROVIDER_LABELS ? saved.provider : defaults.provider,
+      gemini: { ...defaults.gemini, ...saved.gemini },
+      openai: { ...defaults.openai, ...saved.openai },
+    };
+  } catch (error) {
+    console.error("LLM config load error:", error);
+    return defaults;
+  }
+};
+
+export const saveLlmConfig = (config: LlmConfig) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error("LLM config save error:", error);
+  }
+};
+
+// --- Schemas ---
+
+// Property order is the order models write them in: verdict first, so it can be shown while the rest streams
+const validationSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    isValid: { type: 'boolean', description: "Whether the French sentence is grammatically correct considering the target tense." },
+    feedbackType: { type: 'string', enum: ["perfect", "minor_error", "grammar_fail", "nonsense"], description: "Category of the result." },
+    explanation: { type: 'string', description: "Educational feedback. If invalid, explain the grammar rule broken. If valid, give a brief compliment." },
+    translation: { type: 'string', description: "The English translation of the intended sentence." },
+    followUpQuestion: { type: 'string', description: "If the sentence is valid, generate a simple, short follow-up question in French related to the sentence that the student could answer next. If invalid, leave empty." },
+    correction: { type: 'string', description: "The corrected version of the sentence if invalid, or the same sentence if valid." },
+    errors: {
+      type: 'array',
+      description: "One entry per grammar mistake. Empty if the sentence is correct.",
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: ERROR_CATEGORIES, description: "Type of mistake." },
+          slotIndices: { type: 'array', items: { type: 'integer' }, description: "Indices of the numbered blocks involved in the mistake." },
+          expected: { type: 'string', description: "The correct form for those blocks." },
+          message: { type: 'string', description: "Short explanation of this specific mistake." }
+        },
+        required: ["category", "slotIndices", "expected"]
+      }
+    }
+  },
+  required: ["isValid", "correction", "explanation", "translation", "feedbackType"],
+};
+
+const wordPackSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    nouns: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string', description: "French noun (singular)" },
+          translation: { type: 'string', description: "English translation" },
+          gender: { type: 'string', enum: ['m', 'f'], description: "Gender of the noun" }
+        },
+        required: ['text', 'translation', 'gender']
+      }
+    },
+    adjectives: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string', description: "French adjective (masculine singular)" },
+          translation: { type: 'string', description: "English translation" }
+        },
+        required: ['text', 'translation']
+      }
+    },
+    verbs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string', description: "French verb (infinitive)" },
+          translation: { type: 'string', description: "English translation" }
+        },
+        required: ['text', 'translation']
+      }
+    }
+  },
+  required: ['nouns', 'adjectives', 'verbs']
+};
+
+const inspirationSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    englishSentence: { type: 'string', description: "A simple English sentence achievable with the provided vocabulary." },
+    frenchTarget: { type: 'string', description: "The French translation (for verification)." }
+  },
+  required: ["englishSentence"]
+};
+
+// --- Prompts ---
+
+// How hard the AI judge should be, per difficulty profile
+const STRICTNESS_INSTRUCTIONS: Record<ValidationRequest['strictness'], string> = {
+  lenient: "Be encouraging. Missing accents or small spelling slips are 'minor_error' and still count as valid if the structure is right.",
+  standard: "Accent and spelling slips are 'minor_error'; agreement or tense mistakes make the sentence invalid.",
+  strict: "Be strict. Any agreement, accent, elision or word-order error makes the sentence invalid. Expect natural, idiomatic French.",
+};
+
+const buildValidationPrompt = (request: ValidationRequest): string => {
+  const { sentence, tense, topic, availableWords, contextQuestion, previousQuestions, slots, difficulty, strictness } = request;
+
+  let contextInstruction = "";
+  if (contextQuestion) {
+      contextInstruction = `
+      CONTEXT: The student is answering this question: "${contextQuestion}".
+      Check if the sentence "${sentence}" is a logical and grammatical response to the question.
+      If it is grammatically correct but makes no sense as an answer, mark it as invalid (nonsense).
+      `;
+  }
+
+  // Filter out variations to keep prompt cleaner, just base words or unique text
+  const vocabularyList = availableWords
+      .map(w => `${w.text} (${w.translation})`)
+      .slice(0, 200) // Safety limit though unlikely to hit
+      .join(", ");
+
+  // Numbered blocks so the model can point at the exact slots that are wrong
+  const blockList = slots.length > 0
+      ? slots.map((s, i) => `${i}: ${s.value?.text}`).join("\n")
+      : "Not available";
+
+  const avoidedQuestions = previousQuestions.length > 0
+      ? previousQuestions.map(q => `- "${q}"`).join("\n")
+      : "None";
+
+  return `
+    You are an expert French language tutor.
+
+    Task: Evaluate this sentence constructed by a student.
+    Sentence: "${sentence}"
+    Required Tense: ${tense}
+    Topic: ${topic}
+    Student Level: ${difficulty}
+    ${contextInstruction}
+
+    Sentence Blocks (index: text) as placed by the student:
+    ${blockList}
+
+    Student's Vocabulary Context:
+    The student only has access to the following words/blocks to build sentences:
+    [${vocabularyList}]
+
+    HISTORY CONSTRAINTS (IMPORTANT):
+    You have already asked the following questions in this session. DO NOT repeat them or ask extremely similar variations.
+    ${avoidedQuestions}
+
+    Instructions:
+    1. STRICTLY check if the sentence uses the Required Tense correctly.
+    2. Check Subject-Verb agreement.
+    3. Check Noun-Adjective agreement (gender/number).
+    4. If the sentence makes no semantic sense (random words), mark as invalid (nonsense).
+    5. Provide a helpful, short explanation suitable for a ${difficulty.toLowerCase()} learner.
+       STRICTNESS: ${STRICTNESS_INSTRUCTIONS[strictness]}
+    6. If Valid: Generate a simple follow-up question (in French) to challenge the student further.
+       CRITICAL RULE A: The follow-up question MUST be answerable using ONLY the vocabulary provided in the "Student's Vocabulary Context" above.
+       CRITICAL RULE B: The follow-up question MUST be distinct from the 'HISTORY CONSTRAINTS' listed above. Change the subject or verb if needed to ensure variety.
+
+    7. List every mistake in "errors" with its category (agreement, tense, auxiliary, elision, word_order, negation),
+       the indices of the Sentence Blocks involved and the expected form.
+
+    Return result in JSON.
+  `;
+};
+
+const buildWordPackPrompt = (customTopic: string, difficulty: Difficulty): string => `
+  Generate a vocabulary list for French learning based on the custom topic: "${customTopic}".
+  The student level is ${difficulty}: ${difficulty === Difficulty.BEGINNER ? 'use very common, concrete words' : difficulty === Difficulty.ADVANCED ? 'include richer, more specific vocabulary' : 'mix everyday and topic-specific words'}.
+
+  Provide:
+  - 12 Nouns (mix of masculine/feminine), without articles. Write them in lowercase unless they are proper nouns (Paris, Noël).
+  - 6 Adjectives (relevant to the topic)
+  - 6 Verbs (Infinitives). Try to prefer regular -er verbs if possible to make conjugation easier for beginners, but include key irregulars if essential to the topic.
+
+  Return JSON.
+`;
+
+const buildInspirationPrompt = (availableWords: Word[], tense: Tense): string => {
+  const vocabularyList = availableWords
+    .map(w => `${w.text} (${w.type})`)
+    .slice(0, 300)
+    .join(", ");
+
+  return `
+  Task: Create a simple ENGLISH sentence that a student can translate into French.
+  Target Tense: ${tense}
+
+  Constraints:
+  1. The French translation MUST be achievable using ONLY the vocabulary list below.
+  2. You can assume the student can conjugate verbs (e.g., if 'manger' is listed, they can write 'je mange').
+  3. Keep it simple and natural.
+
+  Vocabulary List:
+  [${vocabularyList}]
+
+  Return JSON.
+  `;
+};
+
+// --- Timeouts and retries ---
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 500; // 0.5s, 1s, 2s... plus a little jitter
+
+export const toAiCallError = (error: unknown): AiCallError => {
+  if (error instanceof AiCallError) return error;
+  if (error instanceof SyntaxError) return new AiCallError('invalid_response', error.message);
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return new AiCallError('server', message, status);
+  if (error instanceof TypeError) return new AiCallError('network', message); // fetch() failures
+  return new AiCallError('server', message);
+};
+
+const isTransient = (error: AiCallError): boolean =>
+  error.kind === 'timeout'
+  || error.kind === 'network'
+  || (error.kind === 'server' && (error.status === undefined || error.status === 429 || error.status >= 500));
+
+const cancelledError = () => new AiCallError('cancelled', 'The request was cancelled.');
+
+// Rejects as soon as the signal aborts, even if the underlying call ignores it.
+// dispose() removes the listener once the call has settled on its own.
+const whenAborted = (signal: AbortSignal): { promise: Promise<never>; dispose: () => void } => {
+  let onAbort = () => {};
+  const promise = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  return { promise, dispose: () => signal.removeEventListener('abort', onAbort) };
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const runWithRetry = async (generateJson: JsonGenerator, request: JsonRequest, options: AiCallOptions): Promise<unknown> => {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw cancelledError();
+
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(new AiCallError('timeout', `No answer after ${Math.round(timeoutMs / 1000)}s.`)),
+      timeoutMs
+    );
+    const forwardAbort = () => controller.abort(cancelledError());
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+    const aborted = whenAborted(controller.signal);
+
+    try {
+      return await Promise.race([generateJson(request, controller.signal), aborted.promise]);
+    } catch (raw) {
+      const error = toAiCallError(controller.signal.aborted ? controller.signal.reason : raw);
+      if (!isTransient(error) || attempt >= retries) throw error;
+
+      const delay = BACKOFF_BASE_MS * 2 ** attempt * (1 + Math.random() * 0.2);
+      console.warn(`${request.name} attempt ${attempt + 1} failed (${error.kind}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+      aborted.dispose();
+    }
+  }
+};
+
+// --- Shared implementation for model-backed providers ---
+
+// Runs the request and checks the answer. If the checker finds problems, the model gets one more
+// try with those problems quoted back to it; after that the best repaired value is used.
+const generateChecked = async <T>(
+  generateJson: JsonGenerator,
+  request: JsonRequest,
+  check: (raw: unknown) => Checked<T>,
+  options: AiCallOptions
+): Promise<T> => {
+  let first: Checked<T>;
+  try {
+    first = check(await runWithRetry(generateJson, request, options));
+  } catch (error) {
+    // Network/API errors are not the model's fault; unparseable output is
+    if (!(error instanceof AiCallError) || error.kind !== 'invalid_response') throw error;
+    first = { value: null, errors: [`The response was not valid JSON (${error.message}).`] };
+  }
+  if (first.value && first.errors.length === 0) return first.value;
+
+  console.warn(`Rejected ${request.name} response, retrying:`, first.errors);
+  const retry = check(await runWithRetry(generateJson, {
+    ...request,
+    prompt: `${request.prompt}\n\nYour previous answer was rejected for these reasons:\n${first.errors.map(e => `- ${e}`).join('\n')}\nReturn a corrected JSON object.`,
+  }, options));
+
+  const best = retry.value || first.value;
+  if (!best) throw new AiCallError('invalid_response', `Invalid ${request.name} response: ${retry.errors.join(' ')}`);
+  return best;
+};
+
+// A failed call as an outcome. Cancelling is the caller's own doing, so it isn't logged.
+const failure = (id: LlmProviderId, operation: string, error: unknown): { status: 'error'; error: AiCallError } => {
+  const failed = toAiCallError(error);
+  if (failed.kind !== 'cancelled') console.error(`${LLM_PROVIDER_LABELS[id]} ${operation} Error:`, error);
+  return { status: 'error', error: failed };
+};
+
+// Gemini and OpenAI-compatible servers only differ in how they run a schema-constrained prompt
+export const createJsonProvider = (id: LlmProviderId, generateJson: JsonGenerator): LlmProvider => ({
+  id,
+
+  validateSentence: async (request, options = {}) => {
+    try {
+      const result = await generateChecked(generateJson, {
+        name: 'validation',
+        prompt: buildValidationPrompt(request),
+        schema: validationSchema,
+        temperature: 0.5, // Increased slightly to encourage variety in questions
+        onText: options.onPartial && (text => options.onPartial(readPartialVerdict(parsePartialJson(text)))),
+      }, raw => checkValidationResponse(raw, request.slots.length), options);
+      return { status: 'verdict', result };
+    } catch (error) {
+      return failure(id, 'API', error);
+    }
+  },
+
+  generateWordPack: async (customTopic, difficulty, options = {}) => {
+    try {
+      const pack = await generateChecked(generateJson, {
+        name: 'word_pack',
+        prompt: buildWordPackPrompt(customTopic, difficulty),
+        schema: wordPackSchema,
+        temperature: 0.7,
+      }, checkWordPackResponse, options);
+      return { status: 'pack', pack };
+    } catch (error) {
+      return failure(id, 'Word Pack', error);
+    }
+  },
+
+  generateInspiration: async (availableWords, tense, options = {}) => {
+    try {
+      const { englishSentence } = await generateChecked(generateJson, {
+        name: 'inspiration',
+        prompt: buildInspirationPrompt(availableWords, tense),
+        schema: inspirationSchema,
+        temperature: 0.8,
+      }, checkInspirationResponse, options);
+      return { status: 'inspiration', englishSentence };
+    } catch (error) {
+      return failure(id, 'Inspiration', error);
+    }
+  },
+});
@@ -0,0 +1,25 @@
+import { LlmProvider } from "./llmProvider";
+import { checkGrammar } from "./grammarService";
+
+// No network at all: sentences are judged by the rule engine only and no vocabulary is generated
+export const offlineProvider: LlmProvider = {
+  id: 'offline',
+
+  validateSentence: async ({ sentence, slots, tense, strictness }) => {
+    if (slots.length > 0) return { status: 'verdict', result: checkGrammar(slots, tense, strictness) };
+    return {
+      status: 'verdict',
+      result: {
+        isValid: false,
+        correction: sentence,
+        explanation: "The offline checker needs the sentence blocks to evaluate this sentence.",
+        translation: "",
+        feedbackType: "minor_error"
+      },
+    };
+  },
+
+  generateWordPack: async () => ({ status: 'pack', pack: { nouns: [], adjectives: [], verbs: [] } }),
+
+  generateInspiration: async () => ({ status: 'inspiration', englishSentence: "The cat eats the apple." }),
+};
@@ -0,0 +1,77 @@
+import { AiCallError, createJsonProvider, LlmConfig, LlmProvider } from "./llmProvider";
+
+// Local models often wrap their JSON in a markdown fence even when asked not to
+const stripCodeFence = (text: string): string =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// Reads an OpenAI-style server-sent event stream, reporting the message content received so far
+const readStream = async (body: ReadableStream<Uint8Array>, onText: (textSoFar: string) => void): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  const readLine = (line: string) => {
+    const data = line.replace(/^data:\s*/, '').trim();
+    if (!line.startsWith('data:') || !data || data === '[DONE]') return;
+    let delta: unknown;
+    try {
+      delta = JSON.parse(data).choices?.[0]?.delta?.content;
+    } catch (error) {
+      // A malformed or keep-alive event doesn't spoil the rest of the stream
+      console.warn("Skipped unreadable stream event:", data, error);
+      return;
+    }
+    if (typeof delta === 'string' && delta) {
+      text += delta;
+      onText(text);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      // Some servers (llama.cpp, Ollama) end the stream without a newline after the last event
+      readLine(buffer + decoder.decode());
+      return text;
+    }
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || ''; // Keep the incomplete last line for the next chunk
+    lines.forEach(readLine);
+  }
+};
+
+// Talks to any server implementing POST {baseUrl}/chat/completions (llama.cpp, Ollama, vLLM, OpenAI)
+export const createOpenAiProvider = ({ baseUrl, apiKey, model }: LlmConfig['openai']): LlmProvider =>
+  createJsonProvider('openai', async ({ name, prompt, schema, temperature, onText }, signal) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        temperature,
+        messages: [
+          { role: 'system', content: 'You reply with a single JSON object and nothing else.' },
+          { role: 'user', content: prompt },
+        ],
+        response_format: { type: 'json_schema', json_schema: { name, schema } },
+        ...(onText ? { stream: true } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new AiCallError('server', `HTTP ${response.status}: ${await response.text()}`, response.status);
+    }
+    // Servers that ignore "stream" answer with a plain JSON body
+    if (onText && response.body && response.headers.get('content-type')?.includes('text/event-stream')) {
+      return JSON.parse(stripCodeFence(await readStream(response.body, onText) || "{}"));
+    }
+    const data = await response.json();
+    return JSON.parse(stripCodeFence(data.choices?.[0]?.message?.content || "{}"));
+  });
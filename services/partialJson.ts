@@ -0,0 +1,113 @@
+// Reads the JSON a model has streamed so far. Strings that are still being written are kept
+// as-is (so text can appear as it arrives); keys, numbers and literals that were cut off are left out.
+
+const END = Symbol('end'); // The text ran out before this value was complete
+
+type Parsed = unknown | typeof END;
+
+export const parsePartialJson = (text: string): unknown => {
+  const start = text.indexOf('{'); // Skips markdown fences and other preamble
+  if (start === -1) return undefined;
+  let pos = start;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  // Returns the string so far and whether its closing quote was reached
+  const parseString = (): { value: string; complete: boolean } => {
+    pos++; // Opening quote
+    let value = '';
+    while (pos < text.length) {
+      const char = text[pos];
+      if (char === '"') {
+        pos++;
+        return { value, complete: true };
+      }
+      if (char === '\\') {
+        if (pos + 1 >= text.length) break;
+        const escaped = text[pos + 1];
+        if (escaped === 'u') {
+          if (pos + 6 > text.length) break;
+          value += String.fromCharCode(parseInt(text.slice(pos + 2, pos + 6), 16));
+          pos += 6;
+          continue;
+        }
+        value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escaped] ?? escaped;
+        pos += 2;
+        continue;
+      }
+      value += char;
+      pos++;
+    }
+    pos = text.length;
+    return { value, complete: false };
+  };
+
+  const parseValue = (): Parsed => {
+    skipWhitespace();
+    if (pos >= text.length) return END;
+    const char = text[pos];
+    if (char === '{') return parseObject();
+    if (char === '[') return parseArray();
+    if (char === '"') return parseString().value;
+
+    const match = /^(true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(text.slice(pos));
+    // A literal touching the end of the text may still be growing ("tru", "12" of "125")
+    if (!match || pos + match[0].length >= text.length) {
+      pos = text.length;
+      return END;
+    }
+    pos += match[0].length;
+    return JSON.parse(match[0]);
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    pos++; // {
+    const result: Record<string, unknown> = {};
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length || text[pos] === '}') {
+        pos++;
+        return result;
+      }
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      if (text[pos] !== '"') {
+        pos = text.length; // Not JSON any more; keep what was read
+        return result;
+      }
+      const key = parseString();
+      skipWhitespace();
+      if (!key.complete || text[pos] !== ':') {
+        pos = text.length;
+        return result;
+      }
+      pos++; // :
+      const value = parseValue();
+      if (value !== END) result[key.value] = value;
+    }
+  };
+
+  const parseArray = (): unknown[] => {
+    pos++; // [
+    const result: unknown[] = [];
+    while (true) {
+      skipWhitespace();
+      if (pos >= text.length || text[pos] === ']') {
+        pos++;
+        return result;
+      }
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      const value = parseValue();
+      if (value !== END) result.push(value);
+    }
+  };
+
+  return parseObject();
+};
@@ -0,0 +1,124 @@
+import { ErrorCategory, ERROR_CATEGORIES, GameMode, GameSettings, PlayerProfile, SentenceRecord, SessionRecord, ValidationResult } from "../types";
+
+// Local player profile: every validated sentence is written to localStorage as soon as
+// it is judged, so progress survives leaving the game, reloading or closing the tab.
+
+const STORAGE_KEY = 'hexagrammar.profile';
+const MAX_SESSIONS = 200; // Oldest sessions are dropped beyond this to keep localStorage small
+
+const emptyProfile = (): PlayerProfile => ({ version: 1, sessions: [] });
+
+export const loadProfile = (): PlayerProfile => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return emptyProfile();
+    const parsed = JSON.parse(raw) as PlayerProfile;
+    return parsed && Array.isArray(parsed.sessions) ? parsed : emptyProfile();
+  } catch (error) {
+    console.error("Profile load error:", error);
+    return emptyProfile();
+  }
+};
+
+const saveProfile = (profile: PlayerProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    // Quota exceeded or storage disabled (private mode): the game keeps working without history
+    console.error("Profile save error:", error);
+  }
+};
+
+// Appends a judged sentence to the session, creating the session on its first sentence.
+// Returns the session id so the caller can keep adding to the same session.
+export const recordSentence = (
+  sessionId: string | null,
+  settings: GameSettings,
+  record: SentenceRecord,
+  totalScore: number
+): string => {
+  const profile = loadProfile();
+  let session = sessionId ? profile.sessions.find(s => s.id === sessionId) : undefined;
+
+  if (!session) {
+    session = {
+      id: `session-${record.timestamp}-${Math.random().toString(36).substr(2, 6)}`,
+      settings,
+      startedAt: record.timestamp,
+      updatedAt: record.timestamp,
+      score: 0,
+      sentences: [],
+    };
+    profile.sessions.push(session);
+  }
+
+  session.sentences.push(record);
+  session.score = totalScore;
+  session.updatedAt = record.timestamp;
+
+  profile.sessions = profile.sessions.slice(-MAX_SESSIONS);
+  saveProfile(profile);
+  return session.id;
+};
+
+export const clearProfile = () => {
+  saveProfile(emptyProfile());
+};
+
+// --- Derived statistics for the history screen ---
+
+export const getSessionAccuracy = (session: SessionRecord): number => {
+  if (session.sentences.length === 0) return 0;
+  return session.sentences.filter(s => s.result.isValid).length / session.sentences.length;
+};
+
+export const getBestScores = (profile: PlayerProfile): Partial<Record<GameMode, number>> => {
+  const best: Partial<Record<GameMode, number>> = {};
+  profile.sessions.forEach(session => {
+    const mode = session.settings.mode;
+    best[mode] = Math.max(best[mode] ?? 0, session.score);
+  });
+  return best;
+};
+
+// How often each kind of mistake shows up across a list of judged sentences
+export const countErrorsByCategory = (results: ValidationResult[]): Record<ErrorCategory, number> => {
+  const counts = Object.fromEntries(ERROR_CATEGORIES.map(c => [c, 0])) as Record<ErrorCategory, number>;
+  results.forEach(result => {
+    (result.errors || []).forEach(error => {
+      if (error.category in counts) counts[error.category] += 1;
+    });
+  });
+  return counts;
+};
+
+export const getErrorCounts = (profile: PlayerProfile): Record<ErrorCategory, number> =>
+  countErrorsByCategory(profile.sessions.flatMap(s => s.sentences.map(sentence => sentence.result)));
+
+// Monday 00:00 of the week containing the timestamp
+const getWeekStart = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  const day = (date.getDay() + 6) % 7;
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - day);
+  return date.getTime();
+};
+
+// Share of valid sentences per week, oldest first, for the last `weeks` weeks with activity
+export const getWeeklyAccuracy = (profile: PlayerProfile, weeks = 8): { weekStart: number; accuracy: number; sentences: number }[] => {
+  const buckets = new Map<number, { valid: number; total: number }>();
+  profile.sessions.forEach(session => {
+    session.sentences.forEach(sentence => {
+      const week = getWeekStart(sentence.timestamp);
+      const bucket = buckets.get(week) || { valid: 0, total: 0 };
+      bucket.total += 1;
+      if (sentence.result.isValid) bucket.valid += 1;
+      buckets.set(week, bucket);
+    });
+  });
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .slice(-weeks)
+    .map(([weekStart, { valid, total }]) => ({ weekStart, accuracy: valid / total, sentences: total }));
+};
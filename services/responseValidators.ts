@@ -0,0 +1,189 @@
+import { ERROR_CATEGORIES, GrammarError, ValidationResult } from "../types";
+import { COMMON_WORDS } from "../constants";
+
+// Runtime checks for model output. Each validator repairs what it safely can (whitespace, case,
+// articles, enum spelling) and reports the rest, so the caller can ask the model to try again.
+
+export interface Checked<T> {
+  value: T | null; // Best repaired value, null if nothing usable came back
+  errors: string[]; // Problems worth sending back to the model
+}
+
+export interface WordPackResponse {
+  nouns: { text: string; translation: string; gender: 'm' | 'f' }[];
+  adjectives: { text: string; translation: string }[];
+  verbs: { text: string; translation: string }[];
+}
+
+const FEEDBACK_TYPES: ValidationResult['feedbackType'][] = ['perfect', 'minor_error', 'grammar_fail', 'nonsense'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const cleanText = (value: unknown): string =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+
+// --- Validation verdicts ---
+
+// Drops model errors with unknown categories or block indices outside the sentence
+export const sanitizeErrors = (errors: unknown, slotCount: number): GrammarError[] => {
+  if (!Array.isArray(errors)) return [];
+  return errors
+    .filter((e): e is GrammarError => isObject(e) && ERROR_CATEGORIES.includes(e.category as GrammarError['category']))
+    .map(e => ({
+      category: e.category,
+      slotIndices: (Array.isArray(e.slotIndices) ? e.slotIndices : []).filter(i => Number.isInteger(i) && i >= 0 && i < slotCount),
+      expected: cleanText(e.expected),
+      message: cleanText(e.message) || undefined,
+    }));
+};
+
+export const checkValidationResponse = (raw: unknown, slotCount: number): Checked<ValidationResult> => {
+  if (!isObject(raw)) return { value: null, errors: ['The response must be a JSON object.'] };
+  const errors: string[] = [];
+
+  if (typeof raw.isValid !== 'boolean') errors.push('"isValid" must be true or false.');
+
+  // "Minor Error", "minor-error" -> "minor_error"
+  const feedbackType = cleanText(raw.feedbackType).toLowerCase().replace(/[\s-]+/g, '_') as ValidationResult['feedbackType'];
+  if (!FEEDBACK_TYPES.includes(feedbackType)) {
+    errors.push(`"feedbackType" must be one of ${FEEDBACK_TYPES.join(', ')} (got ${JSON.stringify(raw.feedbackType)}).`);
+  }
+
+  const correction = cleanText(raw.correction);
+  const explanation = cleanText(raw.explanation);
+  const translation = cleanText(raw.translation);
+  if (!correction) errors.push('"correction" is missing.');
+  if (!explanation) errors.push('"explanation" is missing.');
+  if (!translation) errors.push('"translation" is missing.');
+
+  if (typeof raw.isValid !== 'boolean' || !FEEDBACK_TYPES.includes(feedbackType)) {
+    return { value: null, errors };
+  }
+
+  const followUpQuestion = cleanText(raw.followUpQuestion);
+  return {
+    value: {
+      isValid: raw.isValid,
+      correction,
+      explanation,
+      translation,
+      feedbackType,
+      ...(followUpQuestion && raw.isValid ? { followUpQuestion } : {}),
+      errors: sanitizeErrors(raw.errors, slotCount),
+    },
+    errors,
+  };
+};
+
+// What can be shown of a verdict while it is still streaming. Text fields may be cut mid-word;
+// the verdict itself is only reported once it is unambiguous.
+export type PartialVerdict = Partial<Pick<ValidationResult, 'isValid' | 'feedbackType' | 'explanation' | 'translation' | 'correction' | 'followUpQuestion'>>;
+
+const STREAMED_TEXT_FIELDS = ['explanation', 'translation', 'correction', 'followUpQuestion'] as const;
+
+export const readPartialVerdict = (raw: unknown): PartialVerdict => {
+  if (!isObject(raw)) return {};
+  const partial: PartialVerdict = {};
+  if (typeof raw.isValid === 'boolean') partial.isValid = raw.isValid;
+
+  const feedbackType = cleanText(raw.feedbackType).toLowerCase().replace(/[\s-]+/g, '_') as ValidationResult['feedbackType'];
+  if (FEEDBACK_TYPES.includes(feedbackType)) partial.feedbackType = feedbackType;
+
+  STREAMED_TEXT_FIELDS.forEach(field => {
+    // Keep a trailing space so the next chunk doesn't glue onto the last word
+    const value = typeof raw[field] === 'string' ? (raw[field] as string).replace(/\s+/g, ' ').trimStart() : '';
+    if (value) partial[field] = value;
+  });
+  return partial;
+};
+
+// --- Word packs ---
+
+const ARTICLE_GENDERS: [RegExp, 'm' | 'f' | null][] = [
+  [/^(le|un)\s+/i, 'm'],
+  [/^(la|une)\s+/i, 'f'],
+  [/^(l'|l’|les\s+|des\s+)/i, null],
+];
+
+const GENDER_ALIASES: Record<string, 'm' | 'f'> = {
+  m: 'm', masc: 'm', masculine: 'm', masculin: 'm',
+  f: 'f', fem: 'f', feminine: 'f', féminin: 'f', feminin: 'f',
+};
+
+const COMMON_TEXTS = new Set(COMMON_WORDS.map(w => w.text.toLowerCase()));
+
+export const checkWordPackResponse = (raw: unknown): Checked<WordPackResponse> => {
+  if (!isObject(raw)) return { value: null, errors: ['The response must be a JSON object with "nouns", "adjectives" and "verbs".'] };
+  const errors: string[] = [];
+  const seen = new Set<string>(COMMON_TEXTS); // Words the player already has are skipped silently
+
+  const entries = (key: 'nouns' | 'adjectives' | 'verbs'): Record<string, unknown>[] => {
+    const list = raw[key];
+    if (!Array.isArray(list)) {
+      errors.push(`"${key}" must be a list.`);
+      return [];
+    }
+    return list.filter((entry, i) => {
+      const ok = isObject(entry) && cleanText(entry.text) && cleanText(entry.translation);
+      if (!ok) errors.push(`${key}[${i}] needs both "text" and "translation".`);
+      return ok;
+    }) as Record<string, unknown>[];
+  };
+
+  const isNew = (text: string) => {
+    const key = text.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  };
+
+  const nouns: WordPackResponse['nouns'] = [];
+  entries('nouns').forEach(entry => {
+    let text = cleanText(entry.text);
+    let articleGender: 'm' | 'f' | null = null;
+    for (const [pattern, gender] of ARTICLE_GENDERS) {
+      if (pattern.test(text)) {
+        text = text.replace(pattern, '');
+        articleGender = gender;
+        break;
+      }
+    }
+    // Spelling is kept so proper nouns stay capitalised (Paris, Noël); duplicates are caught case-insensitively
+    const gender = GENDER_ALIASES[cleanText(entry.gender).toLowerCase()] || articleGender;
+    if (!gender) {
+      errors.push(`Noun "${text}" needs a gender ("m" or "f").`);
+      return;
+    }
+    if (isNew(text)) nouns.push({ text, translation: cleanText(entry.translation), gender });
+  });
+
+  const adjectives: WordPackResponse['adjectives'] = [];
+  entries('adjectives').forEach(entry => {
+    const text = cleanText(entry.text).toLowerCase();
+    if (isNew(text)) adjectives.push({ text, translation: cleanText(entry.translation) });
+  });
+
+  const verbs: WordPackResponse['verbs'] = [];
+  entries('verbs').forEach(entry => {
+    const text = cleanText(entry.text).toLowerCase();
+    if (!/(er|ir|re)$/.test(text)) {
+      errors.push(`Verb "${text}" must be an infinitive (ending in -er, -ir or -re).`);
+      return;
+    }
+    // The game adds "to " itself
+    const translation = cleanText(entry.translation).replace(/^to\s+/i, '');
+    if (isNew(text)) verbs.push({ text, translation });
+  });
+
+  return { value: { nouns, adjectives, verbs }, errors };
+};
+
+// --- Inspiration ---
+
+export const checkInspirationResponse = (raw: unknown): Checked<{ englishSentence: string }> => {
+  const englishSentence = isObject(raw) ? cleanText(raw.englishSentence) : '';
+  return englishSentence
+    ? { value: { englishSentence }, errors: [] }
+    : { value: null, errors: ['"englishSentence" is missing.'] };
+};
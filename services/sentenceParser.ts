@@ -0,0 +1,128 @@
+import { PartOfSpeech, SentenceSlot, Tense, Word } from "../types";
+import { createWord, generateVariations, getVerbForms } from "../constants";
+import { EXPANSIONS } from "./contractionService";
+
+// Turns a French sentence string back into Word blocks from the player's pool.
+// Used to seed review rounds from a correction string and to build a sentence from speech or typed text.
+
+export interface ParsedToken {
+  text: string;
+  word: Word | null; // null when nothing in the pool (or its inflections) matches
+}
+
+// Elided forms and the full word they stand for. "l'" is kept as is: it is its own article block.
+const ELISIONS: Record<string, string> = {
+  "j'": 'je',
+  "n'": 'ne',
+  "d'": 'de',
+  "qu'": 'que',
+  "c'": 'ce',
+  "m'": 'me',
+  "t'": 'te',
+};
+
+const restoreCase = (original: string, replacement: string) =>
+  original.charAt(0) === original.charAt(0).toUpperCase()
+    ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+    : replacement;
+
+// "J'ai mangé l'eau au café." -> ["Je", "ai", "mangé", "l'", "eau", "à", "le", "café"]
+// Contractions and liaison forms are expanded (au -> à le, bel -> beau); the slab contracts them again.
+export const splitElisions = (sentence: string): string[] => {
+  const tokens: string[] = [];
+  sentence
+    .replace(/[’`]/g, "'")
+    .replace(/[.,!?;:«»"()]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach(raw => {
+      const apostrophe = raw.indexOf("'");
+      if (apostrophe <= 0 || apostrophe === raw.length - 1) {
+        const expansion = EXPANSIONS[raw.toLowerCase()];
+        if (expansion) tokens.push(restoreCase(raw, expansion[0]), ...expansion.slice(1));
+        else tokens.push(raw);
+        return;
+      }
+      const prefix = raw.slice(0, apostrophe + 1);
+      const rest = raw.slice(apostrophe + 1);
+      const lowerPrefix = prefix.toLowerCase();
+
+      if (lowerPrefix === "s'") {
+        // s'il = si + il, otherwise a reflexive se (s'appelle)
+        tokens.push(restoreCase(prefix, rest.toLowerCase().startsWith('il') ? 'si' : 'se'));
+      } else if (ELISIONS[lowerPrefix]) {
+        tokens.push(restoreCase(prefix, ELISIONS[lowerPrefix]));
+      } else {
+        tokens.push(prefix);
+      }
+      tokens.push(rest);
+    });
+  return tokens;
+};
+
+// Every form a player could place from this pool: base words, conjugations, participles, gender/number variations
+export const buildCandidateWords = (wordPool: Word[], tense: Tense): Word[] => {
+  const candidates: Word[] = [...wordPool];
+
+  wordPool.forEach(word => {
+    if (word.type === PartOfSpeech.VERB_INF) {
+      [tense, Tense.PRESENT, Tense.IMPARFAIT].forEach(t => {
+        const forms = getVerbForms(word, t);
+        candidates.push(...forms.conjugations);
+        if (forms.pp) candidates.push(forms.pp);
+      });
+    } else if (word.type === PartOfSpeech.NOUN || word.type === PartOfSpeech.ADJECTIVE) {
+      const isMutable = word.type === PartOfSpeech.ADJECTIVE || word.tags?.includes('mutable');
+      const ownGender: 'm' | 'f' = word.tags?.includes('f') ? 'f' : 'm';
+      const genders: ('m' | 'f')[] = isMutable ? ['m', 'f'] : [ownGender];
+      genders.forEach(g => {
+        candidates.push(generateVariations(word, g, 's'), generateVariations(word, g, 'pl'));
+      });
+    }
+  });
+
+  return candidates;
+};
+
+// Joins tokens that together spell one multi-word block ("parce" + "que" -> "parce que"),
+// trying the longest phrases first so "à cause de" wins over "à"
+export const joinMultiWordTokens = (tokens: string[], candidates: Word[]): string[] => {
+  const phrases = Array.from(new Set(candidates.map(w => w.text.toLowerCase()).filter(text => text.includes(' '))))
+    .map(text => text.split(' '))
+    .sort((a, b) => b.length - a.length);
+
+  const joined: string[] = [];
+  for (let i = 0; i < tokens.length;) {
+    const phrase = phrases.find(parts => parts.every((part, j) => tokens[i + j]?.toLowerCase() === part));
+    const length = phrase ? phrase.length : 1;
+    joined.push(tokens.slice(i, i + length).join(' '));
+    i += length;
+  }
+  return joined;
+};
+
+export const resolveToken = (token: string, candidates: Word[]): Word | null => {
+  const lower = token.toLowerCase();
+  return candidates.find(w => w.text.toLowerCase() === lower) || null;
+};
+
+export const parseSentence = (sentence: string, wordPool: Word[], tense: Tense): ParsedToken[] => {
+  const candidates = buildCandidateWords(wordPool, tense);
+  return joinMultiWordTokens(splitElisions(sentence), candidates).map(text => ({ text, word: resolveToken(text, candidates) }));
+};
+
+// One slot per token. Tokens with no matching word still get a block, flagged as unknown,
+// so the player sees what was heard and can swap it for a real word.
+export const tokensToSlots = (tokens: ParsedToken[]): SentenceSlot[] => {
+  const now = Date.now();
+  return tokens.map((token, index) => {
+    const value = token.word || createWord(token.text, PartOfSpeech.OBJECT, '');
+    return {
+      id: `slot-${index}-${now}`,
+      type: value.type,
+      value,
+      placeholder: value.type,
+      ...(token.word ? {} : { unknown: true }),
+    };
+  });
+};
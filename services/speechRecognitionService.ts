@@ -0,0 +1,95 @@
+// French speech-to-text through the browser's Web Speech API (Chrome, Edge and Safari expose it,
+// Chrome/Safari under the webkit prefix). TypeScript's DOM types only ship the result objects,
+// so the recognizer itself is described here.
+
+interface RecognitionEvent {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface Recognition {
+  lang: string;
+  interimResults: boolean;
+  maxAlternatives: number;
+  continuous: boolean;
+  onresult: ((e: RecognitionEvent) => void) | null;
+  onerror: ((e: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type RecognitionConstructor = new () => Recognition;
+
+export interface ListenOptions {
+  onInterim?: (transcript: string) => void; // Words heard so far, may still change
+  onResult: (transcript: string) => void; // Final transcript of the utterance
+  onError?: (message: string) => void;
+  onEnd?: () => void; // Always called last, whether or not something was heard
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'not-allowed': "Microphone access was blocked. Allow it in your browser to speak your answer.",
+  'service-not-allowed': "Speech recognition isn't allowed in this browser.",
+  'no-speech': "Didn't hear anything. Try again a little closer to the microphone.",
+  'audio-capture': "No microphone was found.",
+  'network': "Speech recognition needs an internet connection in this browser.",
+  'language-not-supported': "This browser can't recognise French speech.",
+};
+
+const getRecognitionConstructor = (): RecognitionConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  const w = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor };
+  return w.SpeechRecognition || w.webkitSpeechRecognition || null;
+};
+
+export const isSpeechRecognitionSupported = (): boolean => getRecognitionConstructor() !== null;
+
+// Listens for one French utterance. Returns a function that stops listening early
+// (whatever was heard up to then is still delivered).
+export const listenFrench = ({ onInterim, onResult, onError, onEnd }: ListenOptions): (() => void) => {
+  const Recognition = getRecognitionConstructor();
+  if (!Recognition) {
+    onError?.("Speech input isn't available in this browser.");
+    onEnd?.();
+    return () => {};
+  }
+
+  const recognition = new Recognition();
+  recognition.lang = 'fr-FR';
+  recognition.interimResults = true;
+  recognition.maxAlternatives = 1;
+  recognition.continuous = false;
+
+  let finalTranscript = '';
+  recognition.onresult = (e) => {
+    let interim = '';
+    for (let i = e.resultIndex; i < e.results.length; i++) {
+      const result = e.results[i];
+      if (result.isFinal) finalTranscript += result[0].transcript;
+      else interim += result[0].transcript;
+    }
+    onInterim?.((finalTranscript + interim).trim());
+  };
+  recognition.onerror = (e) => {
+    if (e.error === 'aborted') return;
+    console.error("Speech recognition error:", e.error);
+    onError?.(ERROR_MESSAGES[e.error] || "Speech recognition failed. Try again.");
+  };
+  recognition.onend = () => {
+    if (finalTranscript.trim()) onResult(finalTranscript.trim());
+    onEnd?.();
+  };
+
+  try {
+    recognition.start();
+  } catch (error) {
+    // Thrown when another recognition is still running
+    console.error("Speech recognition start error:", error);
+    onError?.("Speech recognition is busy. Try again in a moment.");
+    onEnd?.();
+    return () => {};
+  }
+  return () => recognition.stop();
+};
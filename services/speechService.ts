@@ -0,0 +1,118 @@
+import { applyFrenchElision } from "../constants";
+
+// Reads French sentences aloud with the browser's Web Speech API. Everything degrades to a no-op
+// where the API or a French voice is missing, so callers only need to check isFrenchVoiceAvailable().
+
+const RATE_KEY = 'hexagrammar.speechRate';
+export const SPEECH_RATES = [0.6, 0.8, 1, 1.2];
+const DEFAULT_RATE = 0.8; // Learners follow a slightly slow voice more easily
+
+export interface SpeakOptions {
+  rate: number;
+  onWord?: (charIndex: number) => void; // Boundary event: a word starting at this index is being spoken
+  onEnd?: () => void; // Finished, failed, or interrupted by another sentence
+}
+
+const isSpeechSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+
+// fr-FR first, then any other French voice (fr-CA, fr-BE...)
+const findFrenchVoice = (): SpeechSynthesisVoice | null => {
+  if (!isSpeechSupported()) return null;
+  const voices = window.speechSynthesis.getVoices();
+  return voices.find(v => v.lang.replace('_', '-').toLowerCase() === 'fr-fr')
+    || voices.find(v => v.lang.toLowerCase().startsWith('fr'))
+    || null;
+};
+
+export const isFrenchVoiceAvailable = (): boolean => findFrenchVoice() !== null;
+
+// Some browsers load their voices asynchronously; returns an unsubscribe function
+export const onVoicesChanged = (callback: () => void): (() => void) => {
+  if (!isSpeechSupported()) return () => {};
+  window.speechSynthesis.addEventListener('voiceschanged', callback);
+  return () => window.speechSynthesis.removeEventListener('voiceschanged', callback);
+};
+
+export const loadSpeechRate = (): number => {
+  try {
+    const rate = Number(localStorage.getItem(RATE_KEY));
+    return SPEECH_RATES.includes(rate) ? rate : DEFAULT_RATE;
+  } catch (error) {
+    console.error("Speech rate load error:", error);
+    return DEFAULT_RATE;
+  }
+};
+
+export const saveSpeechRate = (rate: number) => {
+  try {
+    localStorage.setItem(RATE_KEY, String(rate));
+  } catch (error) {
+    console.error("Speech rate save error:", error);
+  }
+};
+
+// --- Playback ---
+
+let current: { utterance: SpeechSynthesisUtterance; onEnd?: () => void } | null = null;
+
+// Detaches the playing utterance and tells its caller it is over (cancel() alone fires events late or not at all)
+const finishCurrent = () => {
+  if (!current) return;
+  const { utterance, onEnd } = current;
+  utterance.onboundary = utterance.onend = utterance.onerror = null;
+  current = null;
+  onEnd?.();
+};
+
+// Returns false when nothing could be spoken (no Web Speech API or no French voice)
+export const speakFrench = (text: string, { rate, onWord, onEnd }: SpeakOptions): boolean => {
+  const voice = findFrenchVoice();
+  if (!voice) return false;
+
+  finishCurrent();
+  window.speechSynthesis.cancel();
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.voice = voice;
+  utterance.lang = voice.lang;
+  utterance.rate = rate;
+  utterance.onboundary = (e) => {
+    if (e.name === 'word') onWord?.(e.charIndex);
+  };
+  utterance.onend = finishCurrent;
+  utterance.onerror = (e) => {
+    if (e.error !== 'interrupted' && e.error !== 'canceled') console.error("Speech error:", e.error);
+    finishCurrent();
+  };
+
+  current = { utterance, onEnd };
+  window.speechSynthesis.speak(utterance);
+  return true;
+};
+
+export const stopSpeaking = () => {
+  if (!isSpeechSupported()) return;
+  finishCurrent();
+  window.speechSynthesis.cancel();
+};
+
+// --- Word positions ---
+
+// The elided sentence plus where each word starts in it, so boundary events can be traced back
+// to the slot being spoken. Elision only rewrites a word and the space after it, so each suffix
+// of the sentence keeps the same elided length on its own.
+export const spokenWordStarts = (texts: string[]): { sentence: string; starts: number[] } => {
+  const sentence = applyFrenchElision(texts.join(' '));
+  const starts = texts.map((_, i) => sentence.length - applyFrenchElision(texts.slice(i).join(' ')).length);
+  return { sentence, starts };
+};
+
+// Index of the word containing charIndex
+export const wordIndexAt = (starts: number[], charIndex: number): number => {
+  let index = 0;
+  starts.forEach((start, i) => {
+    if (start <= charIndex) index = i;
+  });
+  return index;
+};
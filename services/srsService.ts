@@ -0,0 +1,129 @@
+import { PartOfSpeech, ReviewCard, Tense, ValidationResult, Word } from "../types";
+import { createWord } from "../constants";
+import { parseSentence } from "./sentenceParser";
+
+// Spaced-repetition queue of past mistakes (SM-2 scheduling), stored in localStorage.
+
+const STORAGE_KEY = 'hexagrammar.review';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+const loadCards = (): ReviewCard[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Review queue load error:", error);
+    return [];
+  }
+};
+
+const saveCards = (cards: ReviewCard[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cards));
+  } catch (error) {
+    console.error("Review queue save error:", error);
+  }
+};
+
+// Comparison key for sentences: case, punctuation and apostrophe style don't matter
+export const normalizeSentence = (sentence: string): string =>
+  sentence
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .replace(/[.,!?;:«»"]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Stores a corrected mistake for later review. Returns null if there is nothing to learn from it.
+export const addReviewCard = (
+  sentence: string,
+  result: ValidationResult,
+  wordPool: Word[],
+  tense: Tense
+): ReviewCard | null => {
+  if (result.feedbackType !== 'grammar_fail' && result.feedbackType !== 'minor_error') return null;
+  if (!result.correction || normalizeSentence(result.correction) === normalizeSentence(sentence)) return null;
+
+  const cards = loadCards();
+  const key = normalizeSentence(result.correction);
+  if (cards.some(c => normalizeSentence(c.correction) === key)) return null;
+
+  // Blocks the student will need; words outside their pool still get a placeholder block
+  const words = parseSentence(result.correction, wordPool, tense).map(
+    token => token.word || createWord(token.text, PartOfSpeech.OBJECT, '')
+  );
+
+  const now = Date.now();
+  const card: ReviewCard = {
+    id: `card-${now}-${Math.random().toString(36).substr(2, 6)}`,
+    sentence,
+    correction: result.correction,
+    explanation: result.explanation,
+    translation: result.translation,
+    words,
+    tense,
+    easeFactor: 2.5,
+    interval: 0,
+    repetitions: 0,
+    dueAt: now, // First review can happen straight away
+    createdAt: now,
+  };
+  saveCards([...cards, card]);
+  return card;
+};
+
+export const getDueCards = (now = Date.now()): ReviewCard[] =>
+  loadCards()
+    .filter(c => c.dueAt <= now)
+    .sort((a, b) => a.dueAt - b.dueAt);
+
+export const getReviewQueueSize = (): number => loadCards().length;
+
+// SM-2 update. quality: 0-5, where 3+ counts as a successful recall.
+export const scheduleCard = (card: ReviewCard, quality: number, now = Date.now()): ReviewCard => {
+  const easeFactor = Math.max(
+    MIN_EASE,
+    card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < 3) {
+    return { ...card, easeFactor, repetitions: 0, interval: 1, dueAt: now + DAY_MS };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * easeFactor);
+  return { ...card, easeFactor, repetitions, interval, dueAt: now + interval * DAY_MS };
+};
+
+export const reviewCard = (cardId: string, quality: number): ReviewCard | null => {
+  const cards = loadCards();
+  const index = cards.findIndex(c => c.id === cardId);
+  if (index === -1) return null;
+  cards[index] = scheduleCard(cards[index], quality);
+  saveCards(cards);
+  return cards[index];
+};
+
+// Review rounds are judged locally: the rebuilt sentence must match the stored correction
+export const judgeRebuild = (card: ReviewCard, sentence: string): ValidationResult => {
+  const isMatch = normalizeSentence(sentence) === normalizeSentence(card.correction);
+  return {
+    isValid: isMatch,
+    correction: card.correction,
+    explanation: isMatch ? `Well remembered! ${card.explanation}` : card.explanation,
+    translation: card.translation,
+    feedbackType: isMatch ? 'perfect' : 'grammar_fail',
+  };
+};
+
+// Fisher-Yates shuffle of the card's blocks for a rebuild round
+export const shuffleWords = (words: Word[]): Word[] => {
+  const shuffled = [...words];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
@@ -0,0 +1,135 @@
+import { Tense, ValidationResult } from "../types";
+import { AiCallError, LlmProviderId, ValidationOutcome, ValidationRequest } from "./llmProvider";
+
+// Verdicts from the AI judge, keyed on what was actually judged (elided sentence, tense, topic,
+// challenge question) so re-checking a sentence skips the round-trip. Stored in localStorage
+// with a TTL; identical checks that are still running share one request.
+
+const STORAGE_KEY = 'hexagrammar.verdicts';
+const TTL_MS = 7 * 24 * 60 * 60 * 1000; // A week: long enough for a class unit, short enough to pick up prompt changes
+const MAX_ENTRIES = 300; // Oldest verdicts are dropped beyond this to keep localStorage small
+
+interface CachedVerdict {
+  result: ValidationResult;
+  savedAt: number;
+}
+
+type VerdictStore = Record<string, CachedVerdict>;
+
+export interface VerdictKeyParts {
+  sentence: string; // Output of applyFrenchElision
+  tense: Tense;
+  topic: string;
+  challenge?: string | null;
+  strictness: ValidationRequest['strictness']; // Same sentence, different difficulty -> different verdict
+  provider: LlmProviderId;
+}
+
+export const verdictKey = ({ sentence, tense, topic, challenge, strictness, provider }: VerdictKeyParts): string =>
+  JSON.stringify([provider, strictness, tense, topic, (challenge || '').trim(), sentence.replace(/\s+/g, ' ').trim()]);
+
+// --- Storage ---
+
+const isFresh = (entry: CachedVerdict, now: number) => now - entry.savedAt < TTL_MS;
+
+const loadStore = (): VerdictStore => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    console.error("Verdict cache load error:", error);
+    return {};
+  }
+};
+
+const saveStore = (store: VerdictStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    // Quota exceeded or storage disabled: verdicts just won't be reused
+    console.error("Verdict cache save error:", error);
+  }
+};
+
+export const getCachedVerdict = (key: string): ValidationResult | null => {
+  const entry = loadStore()[key];
+  return entry && isFresh(entry, Date.now()) ? entry.result : null;
+};
+
+export const cacheVerdict = (key: string, result: ValidationResult) => {
+  const now = Date.now();
+  const kept = Object.entries(loadStore())
+    .filter(([k, entry]) => k !== key && isFresh(entry, now))
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(0, MAX_ENTRIES - 1);
+  saveStore(Object.fromEntries([[key, { result, savedAt: now }], ...kept]));
+};
+
+export const clearVerdictCache = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("Verdict cache clear error:", error);
+  }
+};
+
+// --- In-flight requests ---
+
+interface InFlight {
+  promise: Promise<ValidationOutcome>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const inFlight = new Map<string, InFlight>();
+
+// Runs the check once per key and hands the same outcome to every caller. The shared request
+// gets its own signal: one caller cancelling only detaches that caller, and the request itself
+// is aborted once nobody is waiting for it any more.
+export const shareValidation = (
+  key: string,
+  run: (signal: AbortSignal) => Promise<ValidationOutcome>,
+  signal?: AbortSignal
+): Promise<ValidationOutcome> => {
+  let shared = inFlight.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const entry: InFlight = {
+      controller,
+      waiters: 0,
+      promise: run(controller.signal).then(outcome => {
+        if (outcome.status === 'verdict') cacheVerdict(key, outcome.result);
+        return outcome;
+      }).finally(() => {
+        if (inFlight.get(key) === entry) inFlight.delete(key);
+      }),
+    };
+    inFlight.set(key, entry);
+    shared = entry;
+  }
+
+  const entry = shared;
+  entry.waiters++;
+  if (!signal) return entry.promise;
+
+  return new Promise(resolve => {
+    const detach = () => {
+      entry.waiters--;
+      if (entry.waiters === 0) {
+        entry.controller.abort();
+        if (inFlight.get(key) === entry) inFlight.delete(key);
+      }
+      resolve({ status: 'error', error: new AiCallError('cancelled', 'The request was cancelled.') });
+    };
+    if (signal.aborted) {
+      detach();
+      return;
+    }
+    signal.addEventListener('abort', detach, { once: true });
+    entry.promise.then(outcome => {
+      signal.removeEventListener('abort', detach);
+      resolve(outcome);
+    });
+  });
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { PartOfSpeech, SentenceSlot, Tense } from '../types';
+import { createWord, findElisionCandidate, releaseStaleContractions } from '../constants';
+import { applyContractions, contractPair, isHAspire, startsWithVowelSound } from '../services/contractionService';
+import { checkGrammar } from '../services/grammarService';
+import { splitElisions } from '../services/sentenceParser';
+
+const slot = (id: string, text: string, type: PartOfSpeech, tags?: string[]): SentenceSlot => ({
+  id,
+  type,
+  value: createWord(text, type, '', tags),
+  placeholder: type,
+});
+
+// Applies every candidate the slab would merge, in order
+const mergeAll = (slots: SentenceSlot[]): SentenceSlot[] => {
+  let current = slots;
+  for (let candidate = findElisionCandidate(current); candidate; candidate = findElisionCandidate(current)) {
+    current = [...current];
+    current.splice(candidate.index, candidate.length, candidate.mergedSlot);
+  }
+  return current;
+};
+
+describe('h aspiré', () => {
+  it.each(['héros', 'haricots', 'haute', 'honteuse', 'Hibou', 'yaourt'])('%s is aspirated', word => {
+    expect(isHAspire(word)).toBe(true);
+    expect(startsWithVowelSound(word)).toBe(false);
+  });
+
+  it.each(['hôtel', 'homme', 'heure', 'ami', 'yeux', 'été'])('%s starts with a vowel sound', word => {
+    expect(startsWithVowelSound(word)).toBe(true);
+  });
+});
+
+describe('applyContractions', () => {
+  it.each([
+    ['je vais à le parc', 'je vais au parc'],
+    ['À le marché', 'Au marché'],
+    ['je parle à les enfants', 'je parle aux enfants'],
+    ['le livre de le professeur', 'le livre du professeur'],
+    ['la fin de les vacances', 'la fin des vacances'],
+    ['je vais à le hôtel', "je vais à l'hôtel"],
+    ['la photo de le héros', 'la photo du héros'],
+    ['ma amie', 'mon amie'],
+    ['sa école', 'son école'],
+    ['ta histoire', 'ton histoire'],
+    ['ma hache', 'ma hache'],
+    ['ma maison', 'ma maison'],
+    ['un beau arbre', 'un bel arbre'],
+    ['un nouveau ami', 'un nouvel ami'],
+    ['le vieux homme', 'le vieil homme'],
+    ['un beau héros', 'un beau héros'],
+    ['des vieux amis', 'des vieux amis'],
+    ['il fait beau en été', 'il fait beau en été'],
+    ['Je ai vu le ami de le héros', "J'ai vu l'ami du héros"],
+    ['lorsque il arrive', "lorsqu'il arrive"],
+  ])('%s -> %s', (input, expected) => {
+    expect(applyContractions(input)).toBe(expected);
+  });
+
+  it('leaves the pronoun "le" alone when it is known not to be an article', () => {
+    expect(contractPair('de', 'le', { secondIsArticle: false })).toBeNull();
+    expect(contractPair('de', 'le')).toEqual({ kind: 'contraction', text: 'du', joined: true });
+  });
+});
+
+describe('contractions on the slab', () => {
+  const texts = (slots: SentenceSlot[]) => slots.map(s => s.value?.text);
+
+  it('joins à + le into one preposition block that keeps both words', () => {
+    const slots = mergeAll([slot('a', 'à', PartOfSpeech.PREPOSITION), slot('b', 'le', PartOfSpeech.ARTICLE), slot('c', 'parc', PartOfSpeech.NOUN)]);
+    expect(texts(slots)).toEqual(['au', 'parc']);
+    expect(slots[0]).toMatchObject({ id: 'a', type: PartOfSpeech.PREPOSITION });
+    expect(slots[0].parts?.map(p => p.value?.text)).toEqual(['à', 'le']);
+  });
+
+  it('elides the article rather than contracting before a vowel sound', () => {
+    const slots = mergeAll([slot('a', 'à', PartOfSpeech.PREPOSITION), slot('b', 'le', PartOfSpeech.ARTICLE), slot('c', 'hôtel', PartOfSpeech.NOUN)]);
+    expect(texts(slots)).toEqual(['à', "l'hôtel"]);
+  });
+
+  it('respells a possessive in place, leaving the noun its own block', () => {
+    const slots = mergeAll([slot('a', 'ma', PartOfSpeech.POSSESSIVE), slot('b', 'amie', PartOfSpeech.NOUN)]);
+    expect(texts(slots)).toEqual(['mon', 'amie']);
+    expect(slots[0]).toMatchObject({ id: 'a', type: PartOfSpeech.POSSESSIVE });
+    expect(slots[0].parts?.map(p => p.value?.text)).toEqual(['ma']);
+  });
+
+  it('uses the liaison form only before a singular noun', () => {
+    expect(texts(mergeAll([slot('a', 'beau', PartOfSpeech.ADJECTIVE), slot('b', 'arbre', PartOfSpeech.NOUN)]))).toEqual(['bel', 'arbre']);
+    expect(texts(mergeAll([slot('a', 'beau', PartOfSpeech.ADJECTIVE), slot('b', 'arbres', PartOfSpeech.NOUN, ['masculine', 'plural'])]))).toEqual(['beau', 'arbres']);
+    expect(texts(mergeAll([slot('a', 'beau', PartOfSpeech.ADJECTIVE), slot('b', 'est', PartOfSpeech.VERB)]))).toEqual(['beau', 'est']);
+  });
+
+  it('releases contractions whose neighbour changed', () => {
+    const respelled = mergeAll([slot('a', 'ma', PartOfSpeech.POSSESSIVE), slot('b', 'amie', PartOfSpeech.NOUN)]);
+    expect(texts(releaseStaleContractions([respelled[0], slot('c', 'maison', PartOfSpeech.NOUN)]))).toEqual(['ma', 'maison']);
+
+    const au = mergeAll([slot('a', 'à', PartOfSpeech.PREPOSITION), slot('b', 'le', PartOfSpeech.ARTICLE)]);
+    expect(texts(au)).toEqual(['au']);
+    expect(texts(releaseStaleContractions([...au, slot('c', 'hôtel', PartOfSpeech.NOUN)]))).toEqual(['à', 'le', 'hôtel']);
+    expect(texts(releaseStaleContractions([...au, slot('c', 'parc', PartOfSpeech.NOUN)]))).toEqual(['au', 'parc']);
+  });
+});
+
+describe('parsing contracted forms', () => {
+  it('expands contractions and liaison forms into the words the slab contracts again', () => {
+    expect(splitElisions("Je vais au parc avec un bel ami du quartier.")).toEqual(
+      ['Je', 'vais', 'à', 'le', 'parc', 'avec', 'un', 'beau', 'ami', 'de', 'le', 'quartier']
+    );
+    expect(splitElisions('Aux armes')).toEqual(['À', 'les', 'armes']);
+  });
+});
+
+describe('euphony in the judged sentence', () => {
+  const judge = (possessive: string, noun: string) =>
+    checkGrammar([slot('a', possessive, PartOfSpeech.POSSESSIVE), slot('b', noun, PartOfSpeech.NOUN, ['f'])], Tense.PRESENT);
+
+  it.each(['amie', 'heure'])('accepts mon before the feminine %s', noun => {
+    expect(judge('mon', noun).isValid).toBe(true);
+  });
+
+  it('wants ma before a feminine noun with an h aspiré', () => {
+    const result = judge('mon', 'haine');
+    expect(result.isValid).toBe(false);
+    expect(result.correction).toMatch(/^ma haine/i);
+    expect(judge('ma', 'haine').isValid).toBe(true);
+  });
+});
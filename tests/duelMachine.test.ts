@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty, GameMode, GameSettings, PartOfSpeech, SentenceSlot, Tense, Topic, ValidationResult } from '../types';
+import { createDuelState, currentRound, DUEL_ROUND_LIMIT, DuelEvent, DuelPrompt, DuelState, duelReducer, leaderboard, nextChallenge, waitingFor } from '../services/duelMachine';
+
+// --- Headless harness: a duel is its players plus the events played into it ---
+
+const settings: GameSettings = {
+  mode: GameMode.DUEL,
+  topic: Topic.DAILY_LIFE,
+  tense: Tense.PRESENT,
+  difficulty: Difficulty.BEGINNER,
+  duel: { players: ['Ana', 'Bo', 'Cy'] },
+};
+
+const newDuel = (...names: string[]): DuelState =>
+  createDuelState(settings, names.map((name, i) => ({ id: `p${i + 1}`, name })));
+
+const play = (start: DuelState, ...events: DuelEvent[]): DuelState => events.reduce(duelReducer, start);
+
+const inspiration: DuelPrompt = { kind: 'inspiration', text: 'The cat eats the apple.' };
+const question: DuelPrompt = { kind: 'challenge', text: "Qu'est-ce que tu manges ?" };
+const starter: SentenceSlot[] = [{ id: 's0', type: PartOfSpeech.SUBJECT, value: null, placeholder: 'Subject' }];
+
+const verdict = (isValid: boolean, extra: Partial<ValidationResult> = {}): ValidationResult => ({
+  isValid,
+  correction: '',
+  explanation: '',
+  translation: '',
+  feedbackType: isValid ? 'perfect' : 'grammar_fail',
+  ...extra,
+});
+
+// Beginner scoring: 10 points, 15 past 4 blocks, 20 more for a challenge
+const answer = (playerId: string, isValid: boolean, slotCount = 4, extra: Partial<ValidationResult> = {}): DuelEvent => ({
+  type: 'ANSWER',
+  playerId,
+  submission: { sentence: 'Le chat mange la pomme', result: verdict(isValid, extra), slotCount },
+});
+
+const scores = (state: DuelState) => state.players.map(p => p.game.score);
+
+describe('rounds', () => {
+  it('waits for a prompt, then for every player in seating order', () => {
+    let duel = newDuel('Ana', 'Bo');
+    expect(duel.phase).toBe('prompt');
+
+    duel = play(duel, { type: 'ROUND_START', prompt: inspiration, starter });
+    expect(duel.phase).toBe('turns');
+    expect(currentRound(duel)).toMatchObject({ prompt: inspiration, starter });
+    expect(waitingFor(duel).map(p => p.name)).toEqual(['Ana', 'Bo']);
+
+    duel = play(duel, answer('p2', true));
+    expect(waitingFor(duel).map(p => p.name)).toEqual(['Ana']);
+
+    duel = play(duel, answer('p1', false));
+    expect(duel.phase).toBe('results');
+    expect(waitingFor(duel)).toEqual([]);
+  });
+
+  it('ignores repeated, unknown and out-of-turn answers', () => {
+    const duel = play(newDuel('Ana', 'Bo'), answer('p1', true)); // No round yet
+    expect(scores(duel)).toEqual([0, 0]);
+
+    const started = play(duel, { type: 'ROUND_START', prompt: inspiration, starter: [] }, answer('p1', true), answer('p1', true), answer('p9', true));
+    expect(scores(started)).toEqual([10, 0]);
+    expect(Object.keys(currentRound(started)!.answers)).toEqual(['p1']);
+  });
+
+  it('only starts a round between rounds, and ends after the round limit', () => {
+    let duel = play(newDuel('Ana', 'Bo'), { type: 'ROUND_START', prompt: inspiration, starter: [] }, { type: 'ROUND_START', prompt: question, starter: [] });
+    expect(duel.rounds).toHaveLength(1);
+
+    for (let i = 1; i < DUEL_ROUND_LIMIT; i++) {
+      duel = play(duel, answer('p1', true), answer('p2', true), { type: 'ROUND_START', prompt: inspiration, starter: [] });
+    }
+    duel = play(duel, answer('p1', true), answer('p2', true));
+    expect(duel.rounds).toHaveLength(DUEL_ROUND_LIMIT);
+    expect(duel.phase).toBe('results');
+
+    expect(play(duel, { type: 'ROUND_START', prompt: inspiration, starter: [] }).phase).toBe('over');
+  });
+
+  it('goes on without a player who leaves, and ends when everyone has', () => {
+    let duel = play(newDuel('Ana', 'Bo', 'Cy'), { type: 'ROUND_START', prompt: inspiration, starter: [] }, answer('p1', true), answer('p3', true));
+    expect(waitingFor(duel).map(p => p.name)).toEqual(['Bo']);
+
+    duel = play(duel, { type: 'LEAVE', playerId: 'p2' });
+    expect(duel.phase).toBe('results');
+
+    duel = play(duel, { type: 'ROUND_START', prompt: inspiration, starter: [] });
+    expect(waitingFor(duel).map(p => p.name)).toEqual(['Ana', 'Cy']);
+    expect(play(duel, answer('p2', true)).players[1].game.score).toBe(0);
+
+    expect(play(duel, { type: 'LEAVE', playerId: 'p1' }, { type: 'LEAVE', playerId: 'p3' }).phase).toBe('over');
+  });
+});
+
+describe('scoring', () => {
+  it('credits each player with the points of their correct sentences', () => {
+    const duel = play(newDuel('Ana', 'Bo'),
+      { type: 'ROUND_START', prompt: inspiration, starter: [] }, answer('p1', true, 5), answer('p2', false),
+      { type: 'ROUND_START', prompt: question, starter: [] }, answer('p1', true, 4), answer('p2', true, 5));
+    expect(scores(duel)).toEqual([45, 35]);
+    expect(duel.players.map(p => p.game.sentencesCompleted)).toEqual([2, 1]);
+    expect(currentRound(duel)!.answers.p2.points).toBe(35);
+  });
+
+  it('scores answers itself, whatever points a guest sends along', () => {
+    const claimed = { sentence: 'Je', result: verdict(true), slotCount: 1, points: 1000 };
+    const duel = play(newDuel('Ana', 'Bo'), { type: 'ROUND_START', prompt: inspiration, starter: [] },
+      { type: 'ANSWER', playerId: 'p2', submission: claimed });
+    expect(scores(duel)).toEqual([0, 10]);
+    expect(currentRound(duel)!.answers.p2.points).toBe(10);
+  });
+
+  it('scores nothing for a skipped turn', () => {
+    const skipped: DuelEvent = { type: 'ANSWER', playerId: 'p1', submission: { sentence: 'Je', result: null, slotCount: 1 } };
+    const duel = play(newDuel('Ana', 'Bo'), { type: 'ROUND_START', prompt: inspiration, starter: [] }, skipped);
+    expect(scores(duel)).toEqual([0, 0]);
+    expect(waitingFor(duel).map(p => p.name)).toEqual(['Bo']);
+  });
+});
+
+describe('leaderboard', () => {
+  it('ranks by points, then correct sentences, with ties sharing a rank', () => {
+    const duel = play(newDuel('Ana', 'Bo', 'Cy'),
+      { type: 'ROUND_START', prompt: inspiration, starter: [] }, answer('p1', true), answer('p2', true, 5), answer('p3', true),
+      { type: 'END' });
+    expect(duel.phase).toBe('over');
+    expect(leaderboard(duel).map(e => [e.player.name, e.rank])).toEqual([['Bo', 1], ['Ana', 2], ['Cy', 2]]);
+  });
+});
+
+describe('next challenge', () => {
+  it("offers a question the judge asked last round, once", () => {
+    let duel = play(newDuel('Ana', 'Bo'),
+      { type: 'ROUND_START', prompt: inspiration, starter: [] }, answer('p1', false, 4, { followUpQuestion: 'Ignored?' }),
+      answer('p2', true, 4, { followUpQuestion: question.text }));
+    expect(nextChallenge(duel)).toBe(question.text);
+
+    duel = play(duel, { type: 'ROUND_START', prompt: question, starter: [] },
+      answer('p1', true, 4, { followUpQuestion: question.text }), answer('p2', true));
+    expect(nextChallenge(duel)).toBeNull();
+  });
+});
@@ -0,0 +1,331 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty, GameMode, GameSettings, PartOfSpeech, SentenceSlot, Tense, Topic, ValidationResult } from '../types';
+import { createWord } from '../constants';
+import { AiCallError } from '../services/llmProvider';
+import { createGameState, GameEvent, GameMachineState, gameReducer, RoundSetup } from '../services/gameMachine';
+
+// --- Headless harness: a game is its settings plus the events played into it ---
+
+const settingsFor = (mode: GameMode, difficulty = Difficulty.BEGINNER): GameSettings => ({
+  mode,
+  topic: Topic.DAILY_LIFE,
+  tense: Tense.PRESENT,
+  difficulty,
+});
+
+const play = (start: GameMachineState | GameSettings, ...events: GameEvent[]): GameMachineState =>
+  events.reduce(gameReducer, 'game' in start ? start : createGameState(start));
+
+const slotsFor = (...texts: string[]): SentenceSlot[] =>
+  texts.map((text, i) => ({ id: `s${i}`, type: PartOfSpeech.OBJECT, value: createWord(text, PartOfSpeech.OBJECT, ''), placeholder: 'Object' }));
+
+const round = (...texts: string[]): RoundSetup => ({ slots: slotsFor(...texts), reviewingCard: null });
+
+const verdict = (isValid: boolean, extra: Partial<ValidationResult> = {}): ValidationResult => ({
+  isValid,
+  correction: '',
+  explanation: '',
+  translation: '',
+  feedbackType: isValid ? 'perfect' : 'grammar_fail',
+  ...extra,
+});
+
+const correct = (followUpQuestion?: string): GameEvent[] => [
+  { type: 'VALIDATE_START' },
+  { type: 'VALIDATE_SUCCESS', result: verdict(true, { followUpQuestion }) },
+];
+
+describe('scoring', () => {
+  // Beginner: +5 above 4 slots, x1
+  it('scores 10 for a short correct sentence and 15 above the bonus threshold', () => {
+    const short = play(settingsFor(GameMode.ZEN), { type: 'START_ROUND', round: round('je', 'mange') }, ...correct());
+    expect(short.game.score).toBe(10);
+    const long = play(settingsFor(GameMode.ZEN), { type: 'START_ROUND', round: round('je', 'mange', 'une', 'grande', 'pomme') }, ...correct());
+    expect(long.game.score).toBe(15);
+  });
+
+  it('gives the +5 bonus for more than 5 slots at intermediate, with the x1.5 multiplier', () => {
+    const settings = settingsFor(GameMode.ZEN, Difficulty.INTERMEDIATE);
+    expect(play(settings, { type: 'START_ROUND', round: round('a', 'b', 'c', 'd', 'e') }, ...correct()).game.score).toBe(15);
+    expect(play(settings, { type: 'START_ROUND', round: round('a', 'b', 'c', 'd', 'e', 'f') }, ...correct()).game.score).toBe(23);
+  });
+
+  it('adds the +20 challenge bonus to the sentence answering a challenge', () => {
+    const state = play(
+      settingsFor(GameMode.ZEN),
+      { type: 'START_ROUND', round: round('je', 'mange') },
+      ...correct('Où manges-tu ?'),
+      { type: 'ACCEPT_CHALLENGE', round: round('je', 'mange', 'ici') },
+      ...correct(),
+    );
+    expect(state.game.score).toBe(10 + 30);
+    expect(state.game.sentencesCompleted).toBe(2);
+  });
+
+  it('gives the challenge bonus to a game that starts on a question (a duel prompt)', () => {
+    const state = play(
+      createGameState(settingsFor(GameMode.DUEL), 'Où manges-tu ?'),
+      { type: 'START_ROUND', round: round('je', 'mange', 'ici') },
+      ...correct(),
+    );
+    expect(state.game.score).toBe(30);
+  });
+
+  it('scores nothing for a wrong sentence', () => {
+    const state = play(settingsFor(GameMode.ZEN), { type: 'START_ROUND', round: round('je', 'mangons') },
+      { type: 'VALIDATE_START' }, { type: 'VALIDATE_SUCCESS', result: verdict(false) });
+    expect(state.game).toMatchObject({ score: 0, sentencesCompleted: 0 });
+    expect(state.validation?.isValid).toBe(false);
+  });
+});
+
+describe('Blitz clock', () => {
+  const blitz = () => play(settingsFor(GameMode.BLITZ), { type: 'START_ROUND', round: round('je', 'mange') });
+
+  it('counts down one second per tick and ends the game at zero', () => {
+    let state = play(blitz(), { type: 'TICK' }, { type: 'TICK' });
+    expect(state.game.timeLeft).toBe(58);
+    state = play(state, ...Array.from({ length: 58 }, (): GameEvent => ({ type: 'TICK' })));
+    expect(state.game).toMatchObject({ timeLeft: 0, isGameOver: true, isPlaying: false });
+    expect(play(state, { type: 'TICK' })).toBe(state);
+  });
+
+  it('stands still while the judge is working', () => {
+    const state = play(blitz(), { type: 'VALIDATE_START' }, { type: 'TICK' }, { type: 'TICK' });
+    expect(state.game.timeLeft).toBe(60);
+  });
+
+  it('rewards +10 seconds for a correct sentence and +15 for a challenge answer', () => {
+    let state = play(blitz(), ...correct('Pourquoi ?'));
+    expect(state.game.timeLeft).toBe(70);
+    state = play(state, { type: 'ACCEPT_CHALLENGE', round: round('parce', 'que') }, ...correct());
+    expect(state.game.timeLeft).toBe(85);
+  });
+
+  it('does not run outside Blitz', () => {
+    expect(play(settingsFor(GameMode.ZEN), { type: 'TICK' }).game.timeLeft).toBe(60);
+  });
+});
+
+describe('rounds and challenges', () => {
+  it('ends a Standard game on the first next after ten correct sentences', () => {
+    let state = play(settingsFor(GameMode.STANDARD), { type: 'START_ROUND', round: round('a', 'b') });
+    for (let i = 0; i < 10; i++) {
+      expect(state.game.isGameOver).toBe(false);
+      state = play(state, ...correct(), { type: 'NEXT', round: round('a', 'b') });
+    }
+    expect(state.game).toMatchObject({ sentencesCompleted: 10, isGameOver: true, isPlaying: false });
+  });
+
+  it('keeps Zen going until the player finishes', () => {
+    let state = play(settingsFor(GameMode.ZEN), { type: 'START_ROUND', round: round('a', 'b') });
+    for (let i = 0; i < 12; i++) state = play(state, ...correct(), { type: 'NEXT', round: round('a', 'b') });
+    expect(state.game.isGameOver).toBe(false);
+    expect(play(state, { type: 'END_GAME' }).game.isGameOver).toBe(true);
+  });
+
+  it('ends a Review game when no card is due', () => {
+    const state = play(settingsFor(GameMode.REVIEW), { type: 'START_ROUND', round: null });
+    expect(state.game.isGameOver).toBe(true);
+  });
+
+  it('offers the follow-up question, falling back to the pack question, and remembers the last ten', () => {
+    let state = play(settingsFor(GameMode.ZEN), { type: 'START_ROUND', round: round('a', 'b') }, ...correct('Q0'));
+    expect(state.pendingChallenge).toBe('Q0');
+    state = play(state, { type: 'NEXT', round: round('a', 'b') }, { type: 'VALIDATE_START' },
+      { type: 'VALIDATE_SUCCESS', result: verdict(true), packChallenge: 'Pack question' });
+    expect(state.pendingChallenge).toBe('Pack question');
+    for (let i = 1; i <= 10; i++) state = play(state, { type: 'NEXT', round: round('a', 'b') }, ...correct(`Q${i}`));
+    expect(state.questionHistory).toEqual(['Q1', 'Q2', 'Q3', 'Q4', 'Q5', 'Q6', 'Q7', 'Q8', 'Q9', 'Q10']);
+  });
+
+  it('declining a challenge clears it; accepting makes it the active question', () => {
+    const offered = play(settingsFor(GameMode.ZEN), { type: 'START_ROUND', round: round('a', 'b') }, ...correct('Q'));
+    expect(play(offered, { type: 'NEXT', round: round('c') })).toMatchObject({ pendingChallenge: null, activeChallenge: null });
+    const accepted = play(offered, { type: 'ACCEPT_CHALLENGE', round: round('c') });
+    expect(accepted).toMatchObject({ pendingChallenge: null, activeChallenge: 'Q', validation: null });
+    expect(accepted.slots.map(s => s.value?.text)).toEqual(['c']);
+  });
+
+  it('shows judge failures for retry, except cancellations', () => {
+    const started = play(settingsFor(GameMode.ZEN), { type: 'START_ROUND', round: round('a', 'b') }, { type: 'VALIDATE_START' });
+    const failed = play(started, { type: 'VALIDATE_FAILURE', error: new AiCallError('timeout', 'slow') });
+    expect(failed).toMatchObject({ isValidating: false, judgeError: { kind: 'timeout' }, validation: null });
+    expect(play(started, { type: 'VALIDATE_FAILURE', error: new AiCallError('cancelled', 'gone') }).judgeError).toBeNull();
+    expect(play(failed, { type: 'NEXT', round: round('c') }).judgeError).toBeNull();
+  });
+});
+
+describe('building the sentence', () => {
+  const texts = (state: GameMachineState) => state.slots.map(s => s.value?.text);
+  const zen = () => play(settingsFor(GameMode.ZEN), { type: 'START_ROUND', round: round('le', 'chat') });
+
+  it('appends words while adding and replaces the open slot', () => {
+    let state = play(zen(), { type: 'OPEN_ADD' },
+      { type: 'ADD_WORD', word: createWord('dort', PartOfSpeech.VERB, ''), newSlotId: 'new1' },
+      { type: 'ADD_WORD', word: createWord('bien', PartOfSpeech.ADVERB, ''), newSlotId: 'new2' });
+    expect(texts(state)).toEqual(['le', 'chat', 'dort', 'bien']);
+    expect(state.slots[3]).toMatchObject({ id: 'new2', type: PartOfSpeech.ADVERB });
+    state = play(state, { type: 'SELECT_SLOT', slotId: 's1' }, { type: 'ADD_WORD', word: createWord('chien', PartOfSpeech.NOUN, ''), newSlotId: 'x' });
+    expect(texts(state)).toEqual(['le', 'chien', 'dort', 'bien']);
+    expect(state.activeSlotId).toBeNull();
+  });
+
+  it('moves and removes slots until the sentence is judged', () => {
+    let state = play(zen(), { type: 'MOVE_SLOT', from: 1, to: 0 });
+    expect(texts(state)).toEqual(['chat', 'le']);
+    state = play(state, { type: 'REMOVE_SLOT', slotId: 's0' });
+    expect(texts(state)).toEqual(['chat']);
+    const judged = play(state, ...correct());
+    expect(play(judged, { type: 'MOVE_SLOT', from: 0, to: 0 }, { type: 'REMOVE_SLOT', slotId: 's1' }, { type: 'OPEN_ADD' })).toBe(judged);
+  });
+
+  it('only opens flagged slots after a verdict, and fixing one reopens the sentence', () => {
+    const flagged = play(zen(), { type: 'VALIDATE_START' }, { type: 'VALIDATE_SUCCESS', result: verdict(false, {
+      errors: [{ category: 'agreement', slotIndices: [1], expected: 'chatte' }],
+    }) });
+    expect(play(flagged, { type: 'SELECT_SLOT', slotId: 's0' }).activeSlotId).toBeNull();
+    const fixed = play(flagged, { type: 'SELECT_SLOT', slotId: 's1' }, { type: 'ADD_WORD', word: createWord('chatte', PartOfSpeech.NOUN, ''), newSlotId: 'x' });
+    expect(fixed.validation).toBeNull();
+    expect(texts(fixed)).toEqual(['le', 'chatte']);
+  });
+
+  it('merges an elision in two steps and blocks edits in between', () => {
+    const state = play(settingsFor(GameMode.ZEN), { type: 'START_ROUND', round: round('je', 'ai', 'faim') }, { type: 'MERGE_START' });
+    expect(state.mergingIndex).toBe(0);
+    expect(play(state, { type: 'REMOVE_SLOT', slotId: 's2' })).toBe(state);
+    const merged = play(state, { type: 'MERGE_APPLY' });
+    expect(texts(merged)).toEqual(["j'ai", 'faim']);
+    expect(merged.mergingIndex).toBeNull();
+    expect(play(merged, { type: 'MERGE_START' })).toBe(merged);
+  });
+
+  it('drops a merge whose pair changed during the animation', () => {
+    const state = play(settingsFor(GameMode.ZEN), { type: 'START_ROUND', round: round('je', 'ai') }, { type: 'MERGE_START' },
+      { type: 'LOAD_SENTENCE', slots: slotsFor('tu', 'as') }, { type: 'MERGE_APPLY' });
+    expect(texts(state)).toEqual(['tu', 'as']);
+    expect(state.mergingIndex).toBeNull();
+  });
+});
+
+describe('undo and redo', () => {
+  const texts = (state: GameMachineState) => state.slots.map(s => s.value?.text);
+  const zen = (...words: string[]) => play(settingsFor(GameMode.ZEN), { type: 'START_ROUND', round: round(...words) });
+  const add = (text: string, newSlotId: string): GameEvent[] => [
+    { type: 'OPEN_ADD' },
+    { type: 'ADD_WORD', word: createWord(text, PartOfSpeech.VERB, ''), newSlotId },
+  ];
+
+  it('steps back and forward through adds, moves and removals', () => {
+    let state = play(zen('le', 'chat'), ...add('dort', 'n1'), { type: 'MOVE_SLOT', from: 2, to: 0 }, { type: 'REMOVE_SLOT', slotId: 's0' });
+    expect(texts(state)).toEqual(['dort', 'chat']);
+    state = play(state, { type: 'UNDO' });
+    expect(texts(state)).toEqual(['dort', 'le', 'chat']);
+    state = play(state, { type: 'UNDO' }, { type: 'UNDO' });
+    expect(texts(state)).toEqual(['le', 'chat']);
+    expect(play(state, { type: 'UNDO' })).toBe(state);
+    state = play(state, { type: 'REDO' }, { type: 'REDO' }, { type: 'REDO' });
+    expect(texts(state)).toEqual(['dort', 'chat']);
+    expect(play(state, { type: 'REDO' })).toBe(state);
+  });
+
+  it('forgets the redo steps after a new edit', () => {
+    const state = play(zen('le', 'chat'), { type: 'REMOVE_SLOT', slotId: 's1' }, { type: 'UNDO' }, { type: 'MOVE_SLOT', from: 1, to: 0 });
+    expect(state.redoStack).toEqual([]);
+    expect(texts(play(state, { type: 'REDO' }))).toEqual(['chat', 'le']);
+  });
+
+  it('undoes an elision merge on its own, restoring both slots and keeping them apart', () => {
+    let state = play(zen('faim'), ...add('je', 'n1'), { type: 'MOVE_SLOT', from: 1, to: 0 }, ...add('ai', 'n2'), { type: 'MOVE_SLOT', from: 2, to: 1 },
+      { type: 'MERGE_START' }, { type: 'MERGE_APPLY' });
+    expect(texts(state)).toEqual(["j'ai", 'faim']);
+    const merged = state;
+
+    state = play(state, { type: 'UNDO' });
+    expect(state.slots).toEqual(merged.undoStack[merged.undoStack.length - 1]);
+    expect(texts(state)).toEqual(['je', 'ai', 'faim']);
+    expect(play(state, { type: 'MERGE_START' }).mergingIndex).toBeNull();
+
+    state = play(state, { type: 'REDO' });
+    expect(texts(state)).toEqual(["j'ai", 'faim']);
+  });
+
+  it('merges a kept-apart pair again once one of its words changes', () => {
+    let state = play(zen('je', 'ai'), { type: 'MERGE_START' }, { type: 'MERGE_APPLY' }, { type: 'UNDO' });
+    expect(play(state, { type: 'MERGE_START' }).mergingIndex).toBeNull();
+    state = play(state, { type: 'SELECT_SLOT', slotId: 's1' }, { type: 'ADD_WORD', word: createWord('aime', PartOfSpeech.VERB, ''), newSlotId: 'x' },
+      { type: 'MERGE_START' }, { type: 'MERGE_APPLY' });
+    expect(texts(state)).toEqual(["j'aime"]);
+  });
+
+  it('is not available once the sentence is judged, and a new round starts a fresh history', () => {
+    const judged = play(zen('le', 'chat'), { type: 'MOVE_SLOT', from: 1, to: 0 }, ...correct());
+    expect(play(judged, { type: 'UNDO' })).toBe(judged);
+    const next = play(judged, { type: 'NEXT', round: round('a') });
+    expect(next).toMatchObject({ undoStack: [], redoStack: [], keptApart: [] });
+  });
+});
+
+describe('splitting elided slots', () => {
+  const texts = (state: GameMachineState) => state.slots.map(s => s.value?.text);
+  const merged = (...words: string[]) => {
+    let state = play(settingsFor(GameMode.ZEN), { type: 'START_ROUND', round: round(...words) });
+    for (let guard = 0; guard < words.length; guard++) {
+      const next = play(state, { type: 'MERGE_START' }, { type: 'MERGE_APPLY' });
+      if (next.slots.length === state.slots.length) break;
+      state = next;
+    }
+    return state;
+  };
+  const replace = (slotId: string, text: string, part?: number): GameEvent[] => [
+    { type: 'SELECT_SLOT', slotId },
+    { type: 'ADD_WORD', word: createWord(text, PartOfSpeech.VERB, ''), newSlotId: 'x', part },
+  ];
+
+  it.each([
+    [['je', 'ai', 'faim'], ["j'ai", 'faim'], ['je', 'ai']],
+    [['je', 'ne', 'ai', 'pas'], ['je', "n'ai", 'pas'], ['ne', 'ai']],
+    [['si', 'il', 'pleut'], ["s'il", 'pleut'], ['si', 'il']],
+  ])('keeps the merged words of %j', (words, expected, parts) => {
+    const state = merged(...words);
+    expect(texts(state)).toEqual(expected);
+    expect(state.slots.find(s => s.parts)?.parts?.map(p => p.value?.text)).toEqual(parts);
+  });
+
+  it('replaces the main word by default and re-evaluates the elision', () => {
+    const state = merged('je', 'ai');
+    const withMange = play(state, ...replace('s0', 'mange'));
+    expect(texts(withMange)).toEqual(['je', 'mange']);
+    expect(withMange.slots.map(s => s.id)).toEqual(['s0', 's1']);
+    expect(texts(play(withMange, { type: 'MERGE_START' }))).toEqual(['je', 'mange']);
+
+    const withAime = play(state, ...replace('s0', 'aime'), { type: 'MERGE_START' }, { type: 'MERGE_APPLY' });
+    expect(texts(withAime)).toEqual(["j'aime"]);
+  });
+
+  it('can replace the first word instead', () => {
+    expect(texts(play(merged('je', 'ai'), ...replace('s0', 'tu', 0)))).toEqual(['tu', 'ai']);
+  });
+
+  it('round-trips negation and "si il"', () => {
+    expect(texts(play(merged('je', 'ne', 'ai', 'pas'), { type: 'REMOVE_SLOT', slotId: 's1', part: 0 }))).toEqual(['je', 'ai', 'pas']);
+    expect(texts(play(merged('si', 'il', 'pleut'), ...replace('s0', 'elle')))).toEqual(['si', 'elle', 'pleut']);
+  });
+
+  it('removes one word and leaves the other as its own block', () => {
+    const state = play(merged('je', 'ai', 'faim'), { type: 'REMOVE_SLOT', slotId: 's0', part: 1 });
+    expect(texts(state)).toEqual(['je', 'faim']);
+    expect(state.slots[0]).toMatchObject({ id: 's0', type: PartOfSpeech.OBJECT });
+    expect(state.slots[0].parts).toBeUndefined();
+  });
+
+  it('splits a slot when another is dropped between its words', () => {
+    const state = play(merged('je', 'ai', 'ne'), { type: 'MOVE_SLOT', from: 1, to: 0, betweenParts: true });
+    expect(texts(state)).toEqual(['je', 'ne', 'ai']);
+    expect(texts(play(state, { type: 'MERGE_START' }, { type: 'MERGE_APPLY' }))).toEqual(['je', "n'ai"]);
+  });
+
+  it('moves a slot in front of an elided slot when not dropped between its words', () => {
+    expect(texts(play(merged('je', 'ai', 'ne'), { type: 'MOVE_SLOT', from: 1, to: 0 }))).toEqual(['ne', "j'ai"]);
+  });
+});
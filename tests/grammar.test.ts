@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { PartOfSpeech, SentenceSlot, Tense } from '../types';
+import { createWord } from '../constants';
+import { checkGrammar, isSettledLocally } from '../services/grammarService';
+
+const slot = (id: string, text: string, type: PartOfSpeech, tags: string[] = []): SentenceSlot => ({
+  id,
+  type,
+  value: createWord(text, type, '', tags),
+  placeholder: type,
+});
+
+// "Je vois le chat ..." with a chosen adjective: the only slip the rules can find is its agreement
+const withAdjective = (adjective: string, tags: string[]) => [
+  slot('a', 'Je', PartOfSpeech.SUBJECT),
+  slot('b', 'vois', PartOfSpeech.VERB, ['Je']),
+  slot('c', 'le', PartOfSpeech.ARTICLE),
+  slot('d', 'chat', PartOfSpeech.NOUN, ['m']),
+  slot('e', adjective, PartOfSpeech.ADJECTIVE, tags),
+];
+
+const correct = withAdjective('noir', ['masculine', 'singular']);
+const minorSlip = withAdjective('noire', ['feminine', 'singular']);
+const majorMistake = [slot('a', 'Je', PartOfSpeech.SUBJECT), slot('b', 'vois', PartOfSpeech.VERB, ['Je']), slot('c', 'la', PartOfSpeech.ARTICLE), slot('d', 'chat', PartOfSpeech.NOUN, ['m'])];
+
+describe('checkGrammar strictness', () => {
+  it.each(['lenient', 'standard', 'strict'] as const)('passes a correct sentence when %s', strictness => {
+    const result = checkGrammar(correct, Tense.PRESENT, strictness);
+    expect(result).toMatchObject({ isValid: true, feedbackType: 'perfect' });
+    expect(isSettledLocally(result)).toBe(false);
+  });
+
+  it.each(['lenient', 'standard', 'strict'] as const)('fails a major mistake for good when %s', strictness => {
+    const result = checkGrammar(majorMistake, Tense.PRESENT, strictness);
+    expect(result).toMatchObject({ isValid: false, feedbackType: 'grammar_fail', correction: 'Je vois le chat' });
+    expect(isSettledLocally(result)).toBe(true);
+  });
+
+  it('lets a minor slip count when lenient', () => {
+    const result = checkGrammar(minorSlip, Tense.PRESENT, 'lenient');
+    expect(result).toMatchObject({ isValid: true, feedbackType: 'minor_error' });
+    expect(isSettledLocally(result)).toBe(false);
+  });
+
+  it('leaves a minor slip to the AI judge when standard', () => {
+    const result = checkGrammar(minorSlip, Tense.PRESENT, 'standard');
+    expect(result).toMatchObject({ isValid: false, feedbackType: 'minor_error' });
+    expect(isSettledLocally(result)).toBe(false);
+  });
+
+  it('fails a minor slip for good when strict', () => {
+    const result = checkGrammar(minorSlip, Tense.PRESENT, 'strict');
+    expect(result).toMatchObject({ isValid: false, feedbackType: 'grammar_fail' });
+    expect(isSettledLocally(result)).toBe(true);
+  });
+});
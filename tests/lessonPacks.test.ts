@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { generateVariations } from '../constants';
+import { exportLessonPack, packToWords, parseLessonPack } from '../services/lessonPackService';
+
+const json = JSON.stringify({
+  id: 'farm',
+  title: 'À la ferme',
+  tenses: ['Présent'],
+  words: [
+    { text: 'vache', type: 'Noun', translation: 'cow', gender: 'f' },
+    { text: 'traire', type: 'Infinitive', translation: 'to milk', forms: { pastParticiple: 'trait' } },
+  ],
+  challenges: ["Qu'est-ce que tu as fait à la ferme ?"],
+});
+
+const yaml = `
+id: farm
+title: À la ferme
+tenses: [Présent]
+words:
+  - { text: vache, type: Noun, translation: cow, gender: f }
+  - text: traire
+    type: Infinitive
+    translation: to milk
+    forms:
+      pastParticiple: trait
+challenges:
+  - "Qu'est-ce que tu as fait à la ferme ?"
+`;
+
+describe('parseLessonPack', () => {
+  it.each(['farm.yaml', 'FARM.YML'])('reads %s as the same pack as its JSON twin', fileName => {
+    const fromYaml = parseLessonPack(yaml, fileName);
+    expect(fromYaml.errors).toEqual([]);
+    expect(fromYaml.pack).toEqual(parseLessonPack(json, 'farm.json').pack);
+  });
+
+  it('checks YAML packs with the same rules', () => {
+    expect(parseLessonPack('title: Vide\nwords: []', 'empty.yaml').errors).toEqual(['"words" must be a non-empty list.']);
+  });
+
+  it('names the format a file failed to parse as', () => {
+    expect(parseLessonPack('title: [oops', 'broken.yml').errors[0]).toMatch(/^The file is not valid YAML/);
+    expect(parseLessonPack('title: Ferme', 'farm.json').errors[0]).toMatch(/^The file is not valid JSON/);
+  });
+});
+
+describe('exportLessonPack', () => {
+  it('keeps the class pin and drops what only this device needs', () => {
+    const { pack } = parseLessonPack(json, 'farm.json');
+    const exported = JSON.parse(exportLessonPack({ ...pack!, pinned: true, source: 'ai', topicKey: 'farm', lastUsedAt: 1 }));
+    expect(exported).toEqual({ ...pack, pinned: true });
+    expect(parseLessonPack(JSON.stringify(exported), 'farm.json').pack).toEqual({ ...pack, pinned: true });
+  });
+
+  it('leaves the pin out of packs that are not the class pack', () => {
+    const { pack } = parseLessonPack(json, 'farm.json');
+    expect(JSON.parse(exportLessonPack({ ...pack!, pinned: false }))).not.toHaveProperty('pinned');
+  });
+});
+
+describe('packToWords', () => {
+  it('gives mutable nouns a masculine base with a feminine form, like the built-in pools', () => {
+    const { pack } = parseLessonPack(`
+title: La classe
+words:
+  - { text: ami, type: Noun, translation: friend, gender: mutable }
+  - { text: vache, type: Noun, translation: cow, gender: f }
+`, 'classe.yaml');
+    const [ami, vache] = packToWords(pack!);
+    expect(ami.tags).toEqual(['m', 'mutable']);
+    expect(vache.tags).toEqual(['f']);
+    expect(generateVariations(ami, 'f', 'pl').text).toBe('amies');
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, expect, it } from 'vitest';
+import { PartOfSpeech, SentenceSlot, Tense, Topic, Word } from '../types';
+import {
+  applyFrenchElision,
+  createWord,
+  findElisionCandidate,
+  generateErVerbs,
+  generateVariations,
+  getVerbForms,
+  TOPIC_POOLS,
+} from '../constants';
+
+const GENDERS = ['m', 'f'] as const;
+const NUMBERS = ['s', 'pl'] as const;
+const TENSES = [Tense.PRESENT, Tense.PASSE_COMPOSE, Tense.FUTUR_PROCHE, Tense.IMPARFAIT];
+
+const poolWords = (type: PartOfSpeech): [Topic, Word][] =>
+  (Object.entries(TOPIC_POOLS) as [Topic, Word[]][]).flatMap(([topic, words]) =>
+    words.filter(w => w.type === type).map(w => [topic, w] as [Topic, Word])
+  );
+
+const slot = (text: string, type: PartOfSpeech = PartOfSpeech.OBJECT): SentenceSlot => ({
+  id: `slot-${text}`,
+  type,
+  value: createWord(text, type, ''),
+  placeholder: type,
+});
+
+// --- Golden tables: every word in every topic pool ---
+// Regenerate with `npx vitest run -u` after an intended change, then review the snapshot diff.
+
+describe('golden: topic pool inflections', () => {
+  it('nouns in each gender/number they can take', () => {
+    const table = poolWords(PartOfSpeech.NOUN).map(([topic, noun]) => {
+      // Mutable nouns (ami/amie) take both genders; the rest keep their own
+      const genders = noun.tags?.includes('mutable') ? GENDERS : [noun.tags?.includes('f') ? 'f' : 'm'] as const;
+      const forms = genders.flatMap(g => NUMBERS.map(n => `${g} ${n}: ${generateVariations(noun, g, n).text}`));
+      return `${topic} | ${noun.text} | ${forms.join(' | ')}`;
+    });
+    expect(table).toMatchSnapshot();
+  });
+
+  it('adjectives in all four gender/number combinations', () => {
+    const table = poolWords(PartOfSpeech.ADJECTIVE).map(([topic, adjective]) => {
+      const forms = GENDERS.flatMap(g => NUMBERS.map(n => `${g} ${n}: ${generateVariations(adjective, g, n).text}`));
+      return `${topic} | ${adjective.text} | ${forms.join(' | ')}`;
+    });
+    expect(table).toMatchSnapshot();
+  });
+
+  it('verbs for every person in every tense', () => {
+    const table = poolWords(PartOfSpeech.VERB_INF).flatMap(([topic, verb]) =>
+      TENSES.map(tense => {
+        const { conjugations, pp } = getVerbForms(verb, tense);
+        return `${topic} | ${verb.text} | ${tense} | ${conjugations.map(c => c.text).join(', ')} | pp: ${pp?.text ?? '-'}`;
+      })
+    );
+    expect(table).toMatchSnapshot();
+  });
+});
+
+// --- Known cases ---
+
+describe('createWord', () => {
+  it('uses the injected id generator', () => {
+    expect(createWord('chat', PartOfSpeech.NOUN, 'cat', ['m'])).toEqual({
+      id: 'w1',
+      text: 'chat',
+      type: PartOfSpeech.NOUN,
+      translation: 'cat',
+      tags: ['m'],
+    });
+    expect(createWord('chien', PartOfSpeech.NOUN, 'dog').id).toBe('w2');
+  });
+});
+
+describe('generateErVerbs', () => {
+  it.each([
+    ['parler', ['parle', 'parles', 'parle', 'parlons', 'parlez', 'parlent']],
+    ['manger', ['mange', 'manges', 'mange', 'mangeons', 'mangez', 'mangent']],
+    ['commencer', ['commence', 'commences', 'commence', 'commençons', 'commencez', 'commencent']],
+    ['acheter', ['achète', 'achètes', 'achète', 'achetons', 'achetez', 'achètent']],
+    ['appeler', ['appelle', 'appelles', 'appelle', 'appelons', 'appelez', 'appellent']],
+    ['préférer', ['préfère', 'préfères', 'préfère', 'préférons', 'préférez', 'préfèrent']],
+    ['nettoyer', ['nettoie', 'nettoies', 'nettoie', 'nettoyons', 'nettoyez', 'nettoient']],
+  ])('conjugates %s in the present', (verb, expected) => {
+    expect(generateErVerbs(verb, 'x').map(w => w.text)).toEqual(expected);
+  });
+
+  it('tags each form with its person and numbers the ids in order', () => {
+    const forms = generateErVerbs('parler', 'speak');
+    expect(forms.map(w => w.id)).toEqual(['w1', 'w2', 'w3', 'w4', 'w5', 'w6']);
+    expect(forms[3]).toMatchObject({ text: 'parlons', type: PartOfSpeech.VERB, translation: 'speak (Nous)' });
+  });
+});
+
+describe('generateVariations', () => {
+  const adjective = (text: string) => createWord(text, PartOfSpeech.ADJECTIVE, '');
+  const noun = (text: string, tags: string[]) => createWord(text, PartOfSpeech.NOUN, '', tags);
+
+  it.each([
+    ['grand', 'grand', 'grande', 'grands', 'grandes'],
+    ['petit', 'petit', 'petite', 'petits', 'petites'],
+    ['rouge', 'rouge', 'rouge', 'rouges', 'rouges'],
+    ['beau', 'beau', 'belle', 'beaux', 'belles'],
+    ['vieux', 'vieux', 'vieille', 'vieux', 'vieilles'],
+    ['heureux', 'heureux', 'heureuse', 'heureux', 'heureuses'],
+    ['blanc', 'blanc', 'blanche', 'blancs', 'blanches'],
+  ])('inflects the adjective %s', (base, ms, fs, mpl, fpl) => {
+    const word = adjective(base);
+    expect([
+      generateVariations(word, 'm', 's').text,
+      generateVariations(word, 'f', 's').text,
+      generateVariations(word, 'm', 'pl').text,
+      generateVariations(word, 'f', 'pl').text,
+    ]).toEqual([ms, fs, mpl, fpl]);
+  });
+
+  it.each([
+    ['ami', 'm', 's', 'ami'],
+    ['ami', 'f', 'pl', 'amies'],
+    ['chat', 'f', 's', 'chatte'],
+    ['chien', 'f', 'pl', 'chiennes'],
+    ['écolier', 'f', 's', 'écolière'],
+    ['gâteau', 'm', 'pl', 'gâteaux'],
+    ['cheval', 'm', 'pl', 'chevaux'],
+    ['travail', 'm', 'pl', 'travaux'],
+    ['détail', 'm', 'pl', 'détails'],
+    ['bras', 'm', 'pl', 'bras'],
+  ] as const)('inflects the noun %s (%s %s) as %s', (base, gender, number, expected) => {
+    expect(generateVariations(noun(base, ['m', 'mutable']), gender, number).text).toBe(expected);
+  });
+
+  it('does not feminize a noun that is already feminine', () => {
+    expect(generateVariations(noun('maison', ['f']), 'f', 'pl').text).toBe('maisons');
+  });
+
+  it('tags the requested gender and number', () => {
+    expect(generateVariations(adjective('grand'), 'f', 'pl').tags).toEqual(['feminine', 'plural']);
+  });
+
+  it('leaves invariable words alone', () => {
+    const marron = createWord('marron', PartOfSpeech.ADJECTIVE, '', ['invariable']);
+    expect(generateVariations(marron, 'f', 'pl')).toBe(marron);
+  });
+
+  it('leaves other parts of speech alone', () => {
+    const verb = createWord('parle', PartOfSpeech.VERB, '');
+    expect(generateVariations(verb, 'f', 'pl')).toBe(verb);
+  });
+});
+
+describe('applyFrenchElision', () => {
+  it.each([
+    ['Je ai faim', "J'ai faim"],
+    ['le ami', "l'ami"],
+    ['la école', "l'école"],
+    ['le hôtel', "l'hôtel"],
+    ['je habite ici', "j'habite ici"],
+    ['il ne aime pas', "il n'aime pas"],
+    ['ce est bon', "c'est bon"],
+    ['ce arbre', 'ce arbre'],
+    ['si il pleut', "s'il pleut"],
+    ['si elle vient', 'si elle vient'],
+    ['que il', "qu'il"],
+    ['le chat', 'le chat'],
+  ])('%s -> %s', (input, expected) => {
+    expect(applyFrenchElision(input)).toBe(expected);
+  });
+
+  it.each([
+    ['le héros', 'le héros'],
+    ['la haine', 'la haine'],
+    ['je hurle', 'je hurle'],
+    ['de le hibou', 'du hibou'],
+  ])('keeps h aspiré words unelided: %s -> %s', (input, expected) => {
+    expect(applyFrenchElision(input)).toBe(expected);
+  });
+});
+
+describe('findElisionCandidate', () => {
+  it('merges the first eliding pair into one slot', () => {
+    const slots = [slot('je', PartOfSpeech.SUBJECT), slot('ai', PartOfSpeech.VERB_AUX), slot('mangé', PartOfSpeech.VERB_PP)];
+    const candidate = findElisionCandidate(slots);
+    expect(candidate?.index).toBe(0);
+    expect(candidate?.mergedSlot).toMatchObject({
+      id: 'slot-je',
+      type: PartOfSpeech.VERB_AUX,
+      value: { id: 'w1+w2', text: "j'ai", type: PartOfSpeech.VERB_AUX },
+    });
+  });
+
+  it.each([
+    [['si', 'il'], "s'il"],
+    [['ce', 'est'], "c'est"],
+    [['le', 'hôtel'], "l'hôtel"],
+    [['Je', 'aime'], "J'aime"],
+  ])('%j -> %s', (texts, expected) => {
+    expect(findElisionCandidate(texts.map(t => slot(t)))?.mergedSlot.value?.text).toBe(expected);
+  });
+
+  it.each([
+    [['si', 'elle']],
+    [['ce', 'arbre']],
+    [['le', 'chat']],
+    [['tu', 'as']],
+  ])('leaves %j apart', (texts) => {
+    expect(findElisionCandidate(texts.map(t => slot(t)))).toBeNull();
+  });
+
+  it('skips empty slots', () => {
+    const empty: SentenceSlot = { id: 'empty', type: PartOfSpeech.VERB, value: null, placeholder: 'Verb' };
+    expect(findElisionCandidate([slot('je'), empty])).toBeNull();
+  });
+});
+
+describe('getVerbForms', () => {
+  const verb = (text: string) => createWord(text, PartOfSpeech.VERB_INF, `to ${text}`);
+
+  it('uses the auxiliary blocks for avoir and être in the present', () => {
+    expect(getVerbForms(verb('avoir')).conjugations.map(w => w.text)).toEqual(['ai', 'as', 'a', 'avons', 'avez', 'ont']);
+    expect(getVerbForms(verb('être')).conjugations.map(w => w.text)).toEqual(['suis', 'es', 'est', 'sommes', 'êtes', 'sont']);
+  });
+
+  it.each([
+    ['finir', Tense.PRESENT, ['finis', 'finis', 'finit', 'finissons', 'finissez', 'finissent'], 'fini'],
+    ['vendre', Tense.PRESENT, ['vends', 'vends', 'vend', 'vendons', 'vendez', 'vendent'], 'vendu'],
+    ['parler', Tense.IMPARFAIT, ['parlais', 'parlais', 'parlait', 'parlions', 'parliez', 'parlaient'], 'parlé'],
+    ['manger', Tense.IMPARFAIT, ['mangeais', 'mangeais', 'mangeait', 'mangions', 'mangiez', 'mangeaient'], 'mangé'],
+    ['faire', Tense.PRESENT, ['fais', 'fais', 'fait', 'faisons', 'faites', 'font'], 'fait'],
+  ])('%s (%s)', (infinitive, tense, conjugations, pp) => {
+    const forms = getVerbForms(verb(infinitive), tense);
+    expect(forms.conjugations.map(w => w.text)).toEqual(conjugations);
+    expect(forms.pp?.text).toBe(pp);
+  });
+
+  it('conjugates with present-tense forms for compound tenses', () => {
+    const present = getVerbForms(verb('parler'), Tense.PRESENT).conjugations.map(w => w.text);
+    expect(getVerbForms(verb('parler'), Tense.PASSE_COMPOSE).conjugations.map(w => w.text)).toEqual(present);
+    expect(getVerbForms(verb('parler'), Tense.FUTUR_PROCHE).conjugations.map(w => w.text)).toEqual(present);
+  });
+
+  it('honours per-word overrides', () => {
+    const custom = { ...verb('parler'), forms: { present: ['PA', 'PB', 'PC', 'PD', 'PE', 'PF'] } };
+    expect(getVerbForms(custom).conjugations.map(w => w.text)).toEqual(['PA', 'PB', 'PC', 'PD', 'PE', 'PF']);
+  });
+});
@@ -0,0 +1,12 @@
+import { afterEach, beforeEach } from 'vitest';
+import { setWordIdGenerator } from '../constants';
+
+// Words created during a test get ids w1, w2, ... so outputs can be compared exactly
+beforeEach(() => {
+  let counter = 0;
+  setWordIdGenerator(() => `w${++counter}`);
+});
+
+afterEach(() => {
+  setWordIdGenerator(null);
+});
@@ -3,6 +3,8 @@ export enum GameMode {
   STANDARD = 'Standard',
   BLITZ = 'Blitz',
   ZEN = 'Zen',
+  REVIEW = 'Review',
+  DUEL = 'Duel',
 }
 
 export enum Topic {
@@ -44,12 +46,20 @@ export enum PartOfSpeech {
   NEGATION = 'Negation' // ne, pas, jamais
 }
 
+// Verb forms that replace the conjugation engine's output (one entry per person: je, tu, il, nous, vous, ils)
+export interface VerbFormOverrides {
+  present?: string[];
+  imparfait?: string[];
+  pastParticiple?: string;
+}
+
 export interface Word {
   id: string;
   text: string;
   type: PartOfSpeech;
   translation: string;
   tags?: string[]; // e.g. 'masculine', 'plural'
+  forms?: VerbFormOverrides; // Irregular forms supplied by a lesson pack (infinitives only)
 }
 
 export interface SentenceSlot {
@@ -58,14 +68,45 @@ export interface SentenceSlot {
   value: Word | null;
   placeholder: string;
   fixed?: boolean; // If we want to pre-fill a slot
+  unknown?: boolean; // Spoken or typed word that matched nothing in the pool
+  parts?: SentenceSlot[]; // Elided slot (j'ai): the slots that were merged, restored when it is split
 }
 
 export interface GameSettings {
   mode: GameMode;
   topic: Topic;
   customTopic?: string; // New field for user input
+  packId?: string; // Imported lesson pack used as the custom topic (no AI word generation)
   tense: Tense;
   difficulty: Difficulty;
+  duel?: DuelSetup; // Duel mode only
+}
+
+// Who plays a duel and where. Without a server the players take turns on this device (hot-seat).
+export interface DuelSetup {
+  players: string[]; // Hot-seat: every player's name (2-4). Network: this device's player only
+  serverUrl?: string; // Local duel server (npm run duel-server), e.g. ws://192.168.1.20:8787
+  room?: string; // Players in the same room play together; the first to join hosts
+}
+
+// Gameplay knobs derived from GameSettings.difficulty
+export interface DifficultyProfile {
+  maxWordsPerCategory: number | null; // Topic nouns/adjectives/verbs offered (null = whole pool)
+  preConjugate: boolean; // Verb customizer only offers the form matching the subject on the slab
+  validationStrictness: 'lenient' | 'standard' | 'strict';
+  bonusSlotThreshold: number; // Sentences with more slots than this earn +5
+  scoreMultiplier: number;
+}
+
+export type ErrorCategory = 'agreement' | 'tense' | 'auxiliary' | 'elision' | 'word_order' | 'negation';
+
+export const ERROR_CATEGORIES: ErrorCategory[] = ['agreement', 'tense', 'auxiliary', 'elision', 'word_order', 'negation'];
+
+export interface GrammarError {
+  category: ErrorCategory;
+  slotIndices: number[]; // Positions in the SentenceSlot[] that was validated
+  expected: string; // The correct form for those slots ('' if not known)
+  message?: string;
 }
 
 export interface ValidationResult {
@@ -75,6 +116,7 @@ export interface ValidationResult {
   translation: string;
   feedbackType: 'perfect' | 'minor_error' | 'grammar_fail' | 'nonsense';
   followUpQuestion?: string; // New field for challenge mode
+  errors?: GrammarError[]; // Structured mistakes, used for slot highlighting and per-category stats
 }
 
 export interface GameState {
@@ -84,3 +126,77 @@ export interface GameState {
   isPlaying: boolean;
   isGameOver: boolean;
 }
+
+
+// --- Player Profile (persisted locally) ---
+
+export interface SentenceRecord {
+  sentence: string;
+  result: ValidationResult;
+  points: number;
+  challenge?: string | null;
+  timestamp: number;
+}
+
+export interface SessionRecord {
+  id: string;
+  settings: GameSettings;
+  startedAt: number;
+  updatedAt: number;
+  score: number;
+  sentences: SentenceRecord[];
+}
+
+export interface PlayerProfile {
+  version: 1;
+  sessions: SessionRecord[];
+}
+
+// --- Spaced Repetition (Review mode) ---
+
+export interface ReviewCard {
+  id: string;
+  sentence: string; // What the student originally built
+  correction: string; // The sentence to rebuild
+  explanation: string;
+  translation: string;
+  words: Word[]; // Correct blocks, shuffled into the slots each review
+  tense: Tense;
+  easeFactor: number; // SM-2 "E-Factor", never below 1.3
+  interval: number; // Days until the next review
+  repetitions: number; // Successful reviews in a row
+  dueAt: number;
+  createdAt: number;
+}
+
+// --- Lesson Packs (teacher-authored topics, format documented in README.md) ---
+
+export interface LessonPackWord {
+  text: string;
+  type: PartOfSpeech;
+  translation: string;
+  gender?: 'm' | 'f' | 'mutable'; // Nouns only; 'mutable' nouns change with gender (ami -> amie)
+  forms?: VerbFormOverrides; // Infinitives only
+}
+
+export interface ModelSentence {
+  french: string;
+  english: string;
+}
+
+export interface LessonPack {
+  id: string;
+  version: 1;
+  title: string;
+  description?: string;
+  author?: string;
+  tenses?: Tense[]; // Tenses the pack is written for (all tenses if omitted)
+  words: LessonPackWord[];
+  modelSentences?: ModelSentence[];
+  challenges?: string[]; // Questions offered as challenges after a correct sentence
+  // Local bookkeeping (not part of the file format)
+  source?: 'ai'; // Generated for a custom topic and cached; teacher packs leave this unset
+  topicKey?: string; // Normalized custom topic an AI pack was generated for
+  pinned?: boolean; // The class pack: preselected on the setup screen for every student
+  lastUsedAt?: number;
+}